@@ -1,24 +1,174 @@
 // Inkline - Two-Tier Analysis Pipeline
-// Tier 1 (quick): DeepSeek-only traffic light — ~$0.0005/call
+// Tier 1 (quick): DeepSeek-only traffic light — ~$0.0005/call (measured: GET /api/admin/usage)
 // Tier 2 (deep):  Tavily + Qwen VL (parallel) → single DeepSeek call (analysis + relevance filtering)
-
-import OpenAI from 'openai';
-import { AnalysisResult, QuickResult, CounterSource } from './types';
+//                 Search runs per extracted claim, so each claim gets its own verdict
+//                 Links in the post are expanded so the linked article itself is judged
+// Model calls go through the provider layer in llm.ts (DeepSeek by default)
+
+import {
+  AnalysisInputs, AnalysisProvenance, AnalysisResult, AnalysisStreamEvent, ClaimStatus, CommentAnalysis, CounterSource, DimensionKey,
+  DimensionRating, HighlightedComment, ProvenanceStage, QuickResult, QuickScanItem, Rating, ReputationEntry, SkippedStage,
+  StageProvenance, StageReason
+} from './types';
 import { analyzeImage, analyzeMultipleImages, isVisionAvailable } from './vision';
-import { searchTopic, buildSearchQuery, isSearchAvailable, SearchResult } from './search';
-
-// Lazy-initialize DeepSeek client (after dotenv has loaded)
-let _deepseek: OpenAI | null = null;
-function getClient(): OpenAI {
-  if (!_deepseek) {
-    _deepseek = new OpenAI({
-      apiKey: process.env.DEEPSEEK_API_KEY || '',
-      baseURL: 'https://api.deepseek.com'
-    });
+import { fallbackResults, ratingsTotal, stageDuration, validationFailures } from './metrics';
+import { searchTopic, buildSearchQuery, getSearchProviderName, isSearchAvailable, isSearchCircuitOpen, SearchResult } from './search';
+import { completedTopLevelFields } from './stream';
+import { getTextProvider, getVisionProvider, CompletionRequest } from './llm';
+import { lookupAccount, lookupOutlets, buildReputationContext } from './reputation';
+import { extractClaims, searchClaims, buildClaimContext, buildClaimResults, ExtractedClaim } from './claims';
+import { collectLinks, expandLinks, buildArticleContext, isLinkExpansionEnabled } from './articles';
+import {
+  buildLanguageContext, needsBilingualSearch, outputLanguageInstruction, resolvePostLanguage,
+  truncateText, DEFAULT_LOCALE
+} from './language';
+import {
+  array, formatIssues, fraction, integer, nullable, object, oneOf, optional, parseModelOutput, partialObject,
+  string, validate, withDefault, Schema, SchemaIssue
+} from './schema';
+import { log } from './logger';
+
+// ============================================================
+// MODEL OUTPUT SCHEMAS — what each prompt asks the model to return
+// Near-misses are coerced; anything still off-schema is sent back to the model
+// with the issues listed, up to LLM_REPAIR_ATTEMPTS times (default 1)
+// ============================================================
+
+const DIMENSION_KEYS: DimensionKey[] = ['perspective', 'verification', 'balance', 'source', 'tone'];
+const RATING_ORDER: Rating[] = ['green', 'amber', 'red'];
+
+const ratingSchema = oneOf(RATING_ORDER, { yellow: 'amber', orange: 'amber' });
+
+const dimensionSchema = object<DimensionRating>({
+  rating: ratingSchema,
+  label: string({ nonEmpty: true, maxLength: 60 }),
+  reason: optional(string())
+});
+
+const commentAnalysisSchema = object<CommentAnalysis>({
+  overallTone: string({ nonEmpty: true }),
+  leaningSummary: string(),
+  highlights: withDefault(array(object<HighlightedComment>({
+    author: string(),
+    text: string({ nonEmpty: true }),
+    reason: string(),
+    sentiment: withDefault(oneOf(['agree', 'disagree', 'nuanced', 'neutral'] as const), 'neutral')
+  }), { max: 4 }), []),
+  agreementLevel: oneOf(['echo-chamber', 'mostly-agree', 'mixed', 'mostly-disagree', 'polarised'] as const, {
+    'polarized': 'polarised',
+    'echo chamber': 'echo-chamber'
+  })
+});
+
+// `fallback` is ours to set, never the model's
+const quickResultSchema = partialObject<Omit<QuickResult, 'fallback'>>({
+  overall: ratingSchema,
+  summary: withDefault(string({ nonEmpty: true, maxLength: 200 }), 'Unable to assess quickly'),
+  confidence: withDefault(fraction(), 0.5)
+});
+
+// Everything the deep prompt asks for: the AnalysisResult fields plus the relevance
+// and claim judgements that are turned into counterSources and claims
+interface DeepModelOutput {
+  overall: Rating;
+  perspective: DimensionRating;
+  verification: DimensionRating;
+  balance: DimensionRating;
+  source: DimensionRating;
+  tone: DimensionRating;
+  summary: string;
+  confidence: number;
+  counterPerspective?: string | null;
+  relevantArticles?: Array<{ index: number; stance: 'supporting' | 'counter' | 'neutral' }>;
+  claimVerdicts?: Array<{ index: number; status: ClaimStatus; note?: string }>;
+  commentAnalysis?: CommentAnalysis | null;
+  videoAnalysis?: string | null;
+}
+
+const deepOutputSchema = partialObject<DeepModelOutput>({
+  overall: ratingSchema,
+  perspective: dimensionSchema,
+  verification: dimensionSchema,
+  balance: dimensionSchema,
+  source: dimensionSchema,
+  tone: dimensionSchema,
+  summary: string({ nonEmpty: true }),
+  confidence: withDefault(fraction(), 0.7),
+  counterPerspective: optional(nullable(string())),
+  relevantArticles: optional(array(object({
+    index: integer({ min: 0 }),
+    stance: withDefault(oneOf(['supporting', 'counter', 'neutral'] as const), 'neutral')
+  }))),
+  claimVerdicts: optional(array(object({
+    index: integer({ min: 0 }),
+    status: oneOf(['corroborated', 'contested', 'no-coverage'] as const, { 'no coverage': 'no-coverage' }),
+    note: optional(string())
+  }))),
+  commentAnalysis: optional(nullable(commentAnalysisSchema)),
+  videoAnalysis: optional(nullable(string()))
+});
+
+const DEFAULT_REPAIR_ATTEMPTS = 1;
+
+function repairAttempts(): number {
+  const attempts = parseInt(process.env.LLM_REPAIR_ATTEMPTS || '', 10);
+  return Number.isInteger(attempts) && attempts >= 0 ? Math.min(attempts, 3) : DEFAULT_REPAIR_ATTEMPTS;
+}
+
+const REPAIR_PROMPT = `Your JSON response did not match the required format:
+{{ISSUES}}
+
+Return the complete corrected JSON object — every field, not only the ones listed above. JSON only.`;
+
+/**
+ * Validate a model response against `schema`, asking the model to fix any issues.
+ * Fields that were valid in any attempt are kept, so the value may still be partial;
+ * the remaining issues are returned alongside it.
+ */
+async function parseWithRepair<T extends object>(
+  request: CompletionRequest,
+  content: string,
+  schema: Schema<T>
+): Promise<{ value: Partial<T>; issues: SchemaIssue[] }> {
+  let merged: Partial<T> = {};
+
+  // An issue stops mattering once some attempt produced a valid value for its top-level field
+  const absorb = (attempt: { value: T | undefined; issues: SchemaIssue[] }): SchemaIssue[] => {
+    merged = { ...merged, ...(attempt.value || {}) };
+    return attempt.issues.filter(i => (merged as Record<string, unknown>)[i.path.split(/[.[]/)[0]] === undefined);
+  };
+
+  let issues = absorb(parseModelOutput(schema, content));
+  const invalid = issues.length > 0;
+
+  for (let attempt = 1; issues.length > 0 && attempt <= repairAttempts(); attempt++) {
+    log.info('Schema issues, asking for a repair', { purpose: request.purpose, issues: issues.length, attempt });
+    try {
+      content = await getTextProvider().complete({
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: 'assistant', content },
+          { role: 'user', content: REPAIR_PROMPT.replace('{{ISSUES}}', formatIssues(issues)) }
+        ]
+      });
+    } catch (error) {
+      log.error('Repair error', { purpose: request.purpose, error });
+      break;
+    }
+    issues = absorb(parseModelOutput(schema, content));
   }
-  return _deepseek;
+
+  if (invalid) {
+    validationFailures.inc({ purpose: request.purpose, outcome: issues.length > 0 ? 'unresolved' : 'repaired' });
+  }
+  if (issues.length > 0) {
+    log.warn('Keeping partial output', { purpose: request.purpose, unresolved: issues.map(i => i.path || '(response)') });
+  }
+  return { value: merged, issues };
 }
 
+
 // ============================================================
 // TIER 1 — QUICK SCAN (traffic light only, no web search)
 // Cost: ~$0.0005 per call (~300 input tokens, ~80 output tokens)
@@ -35,37 +185,134 @@ IMPORTANT: You are NOT determining truth. You are providing a quick signal. Use
 
 Respond with JSON only: { "overall": "green|amber|red", "summary": "One sentence (max 20 words)", "confidence": 0.0-1.0 }`;
 
-export async function quickScan(text: string, author: string = 'Unknown'): Promise<QuickResult> {
+const QUICK_FALLBACK: QuickResult = { overall: 'amber', summary: 'Quick assessment unavailable', confidence: 0.3, fallback: true };
+
+// A quick result is usable once it has a rating; summary and confidence have defaults
+function toQuickResult(value: Partial<QuickResult> | undefined): QuickResult {
+  if (value && value.overall) return value as QuickResult;
+  fallbackResults.inc({ tier: 'quick' });
+  return { ...QUICK_FALLBACK };
+}
+
+// Asks for the one-line summaries in the reader's language (nothing added for English)
+function withOutputLanguage(prompt: string, locale: string): string {
+  const instruction = outputLanguageInstruction(locale);
+  return instruction ? `${prompt}\n\n${instruction}` : prompt;
+}
+
+export async function quickScan(text: string, author: string = 'Unknown', locale: string = DEFAULT_LOCALE): Promise<QuickResult> {
   try {
-    const response = await getClient().chat.completions.create({
-      model: 'deepseek-chat',
+    const request: CompletionRequest = {
+      purpose: 'quick',
       messages: [
-        { role: 'system', content: QUICK_SYSTEM_PROMPT },
-        { role: 'user', content: `Author: ${author}\nPost: ${text.substring(0, 500)}` }
+        { role: 'system', content: withOutputLanguage(QUICK_SYSTEM_PROMPT, locale) },
+        { role: 'user', content: `Author: ${author}\nPost: ${truncateText(text, 500)}` }
       ],
-      max_tokens: 100,
-      response_format: { type: 'json_object' }
-    });
+      maxTokens: 100,
+      json: true
+    };
+    const done = stageDuration.startTimer({ tier: 'quick', stage: 'llm' });
+    const content = await getTextProvider().complete(request);
+    done();
 
-    const content = response.choices[0]?.message?.content;
     if (!content) throw new Error('Empty response');
 
-    let cleanJson = content.trim();
-    const jsonMatch = cleanJson.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-    if (jsonMatch) cleanJson = jsonMatch[1];
+    const { value } = await parseWithRepair(request, content, quickResultSchema);
+    const result = toQuickResult(value);
+    ratingsTotal.inc({ tier: 'quick', rating: result.overall });
+    return result;
+  } catch (error) {
+    log.error('Quick scan error', { error });
+    fallbackResults.inc({ tier: 'quick' });
+    ratingsTotal.inc({ tier: 'quick', rating: QUICK_FALLBACK.overall });
+    return { ...QUICK_FALLBACK };
+  }
+}
 
-    const result = JSON.parse(cleanJson);
-    const validRatings = ['green', 'amber', 'red'];
+// ============================================================
+// TIER 1 — BATCH QUICK SCAN (one DeepSeek call for a page of posts)
+// Saves per-call overhead when a feed scrolls past many posts at once
+// ============================================================
 
-    return {
-      overall: validRatings.includes(result.overall) ? result.overall : 'amber',
-      summary: typeof result.summary === 'string' ? result.summary : 'Unable to assess quickly',
-      confidence: typeof result.confidence === 'number' ? Math.min(1, Math.max(0, result.confidence)) : 0.5
-    };
+// Max posts per DeepSeek call — keeps the prompt and output well within limits
+const QUICK_BATCH_CHUNK = 10;
+
+const QUICK_BATCH_SYSTEM_PROMPT = `You are a media analysis assistant. Quickly assess each of several social media posts and return a traffic light rating for each.
+
+Rules:
+- green: Appears balanced, factual, well-sourced, neutral tone
+- amber: Some bias, unverified claims, emotional framing, or missing context
+- red: Strong bias, likely misinformation, heavy emotional manipulation, or anonymous/unreliable source
+
+IMPORTANT: You are NOT determining truth. You are providing a quick signal. Use hedged language.
+
+You will receive several posts, each labelled with a number in square brackets. Assess each post independently.
+
+Respond with JSON only: { "results": { "0": { "overall": "green|amber|red", "summary": "One sentence (max 20 words)", "confidence": 0.0-1.0 }, "1": { ... } } }
+Include one entry for every post number you were given.`;
+
+export async function quickScanBatch(items: QuickScanItem[], locale: string = DEFAULT_LOCALE): Promise<Record<string, QuickResult>> {
+  const results: Record<string, QuickResult> = {};
+
+  for (let start = 0; start < items.length; start += QUICK_BATCH_CHUNK) {
+    const chunk = items.slice(start, start + QUICK_BATCH_CHUNK);
+    Object.assign(results, await quickScanChunk(chunk, locale));
+  }
+
+  return results;
+}
+
+async function quickScanChunk(items: QuickScanItem[], locale: string): Promise<Record<string, QuickResult>> {
+  const results: Record<string, QuickResult> = {};
+  if (items.length === 0) return results;
+
+  // A single post gains nothing from the batch prompt
+  if (items.length === 1) {
+    results[items[0].id] = await quickScan(items[0].text, items[0].author || 'Unknown', locale);
+    return results;
+  }
+
+  // Posts are labelled by position, not by id, so arbitrary client ids never reach the prompt
+  const posts = items.map((item, i) =>
+    `[${i}] Author: ${item.author || 'Unknown'}\nPost: ${truncateText(item.text, 500)}`
+  ).join('\n\n');
+
+  try {
+    log.info('Quick batch: scanning in one call', { posts: items.length });
+    const done = stageDuration.startTimer({ tier: 'quick', stage: 'llm' });
+    const content = await getTextProvider().complete({
+      purpose: 'quick-batch',
+      messages: [
+        { role: 'system', content: withOutputLanguage(QUICK_BATCH_SYSTEM_PROMPT, locale) },
+        { role: 'user', content: posts }
+      ],
+      maxTokens: 80 * items.length + 50,
+      json: true
+    });
+    done();
+
+    if (!content) throw new Error('Empty response');
+
+    // No repair round here: one malformed post gets the fallback rather than
+    // re-sending the whole batch
+    const { value: parsed } = parseModelOutput(partialObject<{ results: Record<string, unknown> }>({
+      results: object<Record<string, unknown>>({})
+    }), content);
+    const byIndex = parsed?.results || {};
+
+    items.forEach((item, i) => {
+      const { value, issues } = validate(quickResultSchema, byIndex[String(i)]);
+      if (issues.length > 0) validationFailures.inc({ purpose: 'quick-batch', outcome: 'unresolved' });
+      results[item.id] = toQuickResult(value);
+    });
   } catch (error) {
-    console.error('[Inkline] Quick scan error:', error);
-    return { overall: 'amber', summary: 'Quick assessment unavailable', confidence: 0.3 };
+    log.error('Quick batch error', { error });
+    fallbackResults.inc({ tier: 'quick' }, items.length);
+    for (const item of items) results[item.id] = { ...QUICK_FALLBACK };
   }
+  for (const item of items) ratingsTotal.inc({ tier: 'quick', rating: results[item.id].overall });
+
+  return results;
 }
 
 // ============================================================
@@ -74,6 +321,18 @@ export async function quickScan(text: string, author: string = 'Unknown'): Promi
 // DeepSeek does analysis + relevance filtering in a single pass
 // ============================================================
 
+// Shared by the deep prompt and the comment-only enrichment prompt
+const COMMENT_ANALYSIS_GUIDE = `If comments/replies from the post are provided, analyze them to produce a "commentAnalysis" object:
+- "overallTone": A brief description of the general emotional tone (e.g. "Predominantly critical", "Supportive with some dissent", "Heated and polarised")
+- "leaningSummary": 1-2 sentences on the ideological or topical lean of the comment section. Do commenters mostly agree with the post, or push back?
+- "agreementLevel": One of: "echo-chamber" (near-unanimous agreement), "mostly-agree", "mixed", "mostly-disagree", "polarised" (strong opposing camps)
+- "highlights": An array of 2-4 notable comments worth highlighting. Pick comments that:
+  * Offer factual counter-evidence to the post's claims
+  * Provide important context the post omitted
+  * Represent a significant minority viewpoint
+  * Are particularly insightful or well-reasoned
+  Each highlight: { "author": "username", "text": "the comment (truncated if long)", "reason": "why it's notable", "sentiment": "agree|disagree|nuanced|neutral" }`;
+
 const DEEP_SYSTEM_PROMPT = `You are a media analysis assistant for Inkline. You analyze social media posts and provide objective assessments.
 
 IMPORTANT: You are NOT determining truth or falsehood. You provide contextual analysis to support the reader's own judgement. Use measured, scholarly language. Never claim certainty. Frame findings as observations, not verdicts. Phrases like "appears to", "suggests", "may indicate" are preferred over definitive statements.
@@ -99,6 +358,8 @@ Analyze across these 5 dimensions. For EACH dimension, you MUST also provide a "
    - green: Source is identifiable, has a consistent publishing history, and attributes its claims
    - amber: Source is identifiable but has limited track record, or lacks clear attribution for claims
    - red: Source is anonymous, unidentifiable, or has a documented pattern of publishing false information
+   If LINKED ARTICLES are provided, the post is sharing that article: judge the article's own attribution and byline, not only the post's teaser text.
+   If SOURCE REPUTATION NOTES are provided, use the curated track record and transparency notes for the author and cited outlets, but still judge this specific post on its own attribution.
    IMPORTANT SOURCE BIAS SAFEGUARD: Do NOT equate "established" or "mainstream Western" with "credible". A small independent outlet, regional publication, advocacy journalism outlet, or citizen journalist can be rated green if they are transparent about their perspective, attribute their claims, and have a consistent track record. Conversely, a large mainstream outlet can be rated amber or red if a specific piece lacks attribution or misrepresents facts. Judge the source on transparency and consistency, NOT on size, geography, or alignment with any particular political establishment.
 
 5. TONE: Is emotional manipulation present?
@@ -117,6 +378,19 @@ If web search results are provided, you MUST:
 2. LABEL STANCE: For each relevant article, classify it as "supporting" (agrees with the post's framing), "counter" (offers an opposing viewpoint), or "neutral" (factual/balanced reporting).
 3. Return "relevantArticles" as an array of objects: [{ "index": 0, "stance": "counter" }, ...]. Only include relevant articles.
 
+CLAIM-BY-CLAIM VERIFICATION:
+If a list of checkable claims is provided, return "claimVerdicts" with one entry per claim: [{ "index": 0, "status": "corroborated|contested|no-coverage", "note": "1 short sentence" }]
+- corroborated: relevant articles report the same thing
+- contested: relevant articles dispute, contradict, or significantly complicate the claim
+- no-coverage: no relevant article addresses the claim (this says nothing about whether it is true)
+Base the VERIFICATION rating on these verdicts. If no claims are provided, set claimVerdicts to [].
+
+LINKED ARTICLES:
+If the text of articles linked from the post is provided, treat the article as part of what the reader is being shown:
+- Check whether the post's framing matches what the article actually says. A headline or teaser that overstates or misrepresents the article should lower VERIFICATION and TONE.
+- Claims stated in the article count as attributed to it; note when the article itself cites no evidence.
+- Mention in the summary if the post and the linked article diverge.
+
 COUNTER-PERSPECTIVE:
 If the post shows any bias, ideological lean, or one-sided framing (i.e. perspective is amber or red), you MUST provide a "counterPerspective" field:
 - A 2-3 sentence articulation of a thoughtful alternative viewpoint that balances the post's perspective
@@ -125,18 +399,13 @@ If the post shows any bias, ideological lean, or one-sided framing (i.e. perspec
 - If the post is balanced/green, set counterPerspective to null
 
 COMMENT SECTION ANALYSIS:
-If comments/replies from the post are provided, analyze them to produce a "commentAnalysis" object:
-- "overallTone": A brief description of the general emotional tone (e.g. "Predominantly critical", "Supportive with some dissent", "Heated and polarised")
-- "leaningSummary": 1-2 sentences on the ideological or topical lean of the comment section. Do commenters mostly agree with the post, or push back?
-- "agreementLevel": One of: "echo-chamber" (near-unanimous agreement), "mostly-agree", "mixed", "mostly-disagree", "polarised" (strong opposing camps)
-- "highlights": An array of 2-4 notable comments worth highlighting. Pick comments that:
-  * Offer factual counter-evidence to the post's claims
-  * Provide important context the post omitted
-  * Represent a significant minority viewpoint
-  * Are particularly insightful or well-reasoned
-  Each highlight: { "author": "username", "text": "the comment (truncated if long)", "reason": "why it's notable", "sentiment": "agree|disagree|nuanced|neutral" }
+${COMMENT_ANALYSIS_GUIDE}
 If no comments are provided, set commentAnalysis to null.
 
+LANGUAGE:
+Posts may be written in any language. Read the post in its own language and by that language's conventions — never rate a post lower because it is not in English, and judge TONE by the norms of the post's language.
+Write the free-text fields in the output language named in the LANGUAGE section, and keep quotations in their original language.
+
 VIDEO / IMAGE CONTEXT:
 If visual analysis is provided (from our vision AI), factor it heavily into your assessment.
 Include your assessment of the visual content in the videoAnalysis field.
@@ -147,8 +416,12 @@ const DEEP_USER_PROMPT = `Analyze this social media post and provide a brief, he
 
 Author: {{AUTHOR}}
 Content: {{CONTENT}}
+{{LANGUAGE_CONTEXT}}
 {{VISUAL_CONTEXT}}
 {{WEB_CONTEXT}}
+{{ARTICLE_CONTEXT}}
+{{CLAIM_CONTEXT}}
+{{REPUTATION_CONTEXT}}
 {{COMMENT_CONTEXT}}
 
 Respond with JSON in this exact format:
@@ -163,6 +436,7 @@ Respond with JSON in this exact format:
   "confidence": 0.0-1.0,
   "counterPerspective": "2-3 sentences offering a thoughtful alternative viewpoint (or null if post is balanced/green)",
   "relevantArticles": [{ "index": 0, "stance": "counter" }, { "index": 2, "stance": "supporting" }],
+  "claimVerdicts": [{ "index": 0, "status": "corroborated|contested|no-coverage", "note": "1 short sentence" }],
   "counterSources": [],
   "commentAnalysis": {
     "overallTone": "Brief description of comment section tone",
@@ -180,39 +454,40 @@ Respond with JSON in this exact format:
 // VALIDATION
 // ============================================================
 
-function validateAnalysisResult(data: unknown): data is AnalysisResult {
-  if (!data || typeof data !== 'object') return false;
+// Fill the gaps in a partial deep output so the fields that did parse can still be shown.
+// Throws when no dimension was usable at all.
+function completeAnalysis(output: Partial<DeepModelOutput>): AnalysisResult {
+  const rated = DIMENSION_KEYS.filter(k => output[k]);
+  if (rated.length === 0) throw new Error('No usable dimension ratings in model output');
 
-  const obj = data as Record<string, unknown>;
-  const validRatings = ['green', 'amber', 'red'];
-
-  if (!validRatings.includes(obj.overall as string)) return false;
-
-  const dimensions = ['perspective', 'verification', 'balance', 'source', 'tone'];
-  for (const dim of dimensions) {
-    const d = obj[dim] as Record<string, unknown> | undefined;
-    if (!d || typeof d !== 'object') return false;
-    if (!validRatings.includes(d.rating as string)) return false;
-    if (typeof d.label !== 'string') return false;
-  }
-
-  if (typeof obj.summary !== 'string') return false;
-  if (typeof obj.confidence !== 'number' || obj.confidence < 0 || obj.confidence > 1) {
-    obj.confidence = 0.7;
-  }
-  if (!Array.isArray(obj.counterSources)) {
-    obj.counterSources = [];
+  const dimensions = {} as Record<DimensionKey, DimensionRating>;
+  for (const k of DIMENSION_KEYS) {
+    dimensions[k] = output[k] || { rating: 'amber', label: 'Unable to assess', reason: 'This part of the analysis could not be completed.' };
   }
 
-  return true;
+  // Overall falls back to the mean of the dimension ratings
+  const meanScore = DIMENSION_KEYS.reduce((sum, k) => sum + RATING_ORDER.indexOf(dimensions[k].rating), 0) / DIMENSION_KEYS.length;
+  const complete = rated.length === DIMENSION_KEYS.length && !!output.overall && !!output.summary;
+  const confidence = output.confidence ?? 0.7;
+
+  return {
+    overall: output.overall || RATING_ORDER[Math.round(meanScore)],
+    ...dimensions,
+    summary: output.summary || 'Inkline could only partly analyze this post. Please use your own judgment.',
+    confidence: complete ? confidence : Math.min(confidence, 0.4),
+    ...(output.counterPerspective ? { counterPerspective: output.counterPerspective } : {}),
+    ...(output.commentAnalysis ? { commentAnalysis: output.commentAnalysis } : {}),
+    ...(output.videoAnalysis ? { videoAnalysis: output.videoAnalysis } : {})
+  };
 }
 
-function searchResultsToCounterSources(results: SearchResult[]): CounterSource[] {
+// `outlets` maps result domains to reputation entries, which supply the lean
+function searchResultsToCounterSources(results: SearchResult[], outlets: Map<string, ReputationEntry>): CounterSource[] {
   return results
     .filter(r => r.url && r.title)
     .map(r => ({
       outlet: r.source,
-      lean: '',
+      lean: outlets.get(r.source)?.lean || '',
       headline: r.title,
       url: r.url,
       snippet: r.content,
@@ -220,9 +495,151 @@ function searchResultsToCounterSources(results: SearchResult[]): CounterSource[]
     }));
 }
 
+// ============================================================
+// STREAMING — emit stages of the DeepSeek JSON as they complete
+// ============================================================
+
+export type AnalysisEventHandler = (event: AnalysisStreamEvent) => void;
+
+function deepRequest(userPrompt: string): CompletionRequest {
+  return {
+    purpose: 'deep',
+    messages: [
+      { role: 'system', content: DEEP_SYSTEM_PROMPT },
+      { role: 'user', content: userPrompt }
+    ],
+    maxTokens: 2500,
+    json: true
+  };
+}
+
+async function streamDeepCompletion(request: CompletionRequest, onEvent: AnalysisEventHandler): Promise<string> {
+  let content = '';
+  const emitted = new Set<string>();
+
+  for await (const delta of getTextProvider().stream(request)) {
+    content += delta;
+
+    // Only re-scan when the delta could have closed a value
+    if (emitted.size < 3 && /[}",\]]/.test(delta)) {
+      emitCompletedStages(completedTopLevelFields(content), emitted, onEvent);
+    }
+  }
+
+  return content;
+}
+
+function emitCompletedStages(
+  fields: Record<string, unknown>,
+  emitted: Set<string>,
+  onEvent: AnalysisEventHandler
+): void {
+  if (!emitted.has('dimensions')) {
+    const overall = validate(ratingSchema, fields.overall).value;
+    const dims = DIMENSION_KEYS.map(k => validate(dimensionSchema, fields[k]).value);
+    if (overall && dims.every(d => d)) {
+      emitted.add('dimensions');
+      const [perspective, verification, balance, source, tone] = dims as DimensionRating[];
+      onEvent({ stage: 'dimensions', overall, perspective, verification, balance, source, tone });
+    }
+  }
+
+  if (!emitted.has('summary') && typeof fields.summary === 'string') {
+    emitted.add('summary');
+    onEvent({ stage: 'summary', summary: fields.summary });
+  }
+
+  if (!emitted.has('counterPerspective') && 'counterPerspective' in fields) {
+    emitted.add('counterPerspective');
+    const cp = fields.counterPerspective;
+    onEvent({ stage: 'counterPerspective', counterPerspective: typeof cp === 'string' && cp.length > 0 ? cp : null });
+  }
+}
+
+// ============================================================
+// ANALYSIS INPUTS AND VERSION — what a cached analysis can be reused for
+// ============================================================
+
+// Bump when the deep prompts or DeepModelOutput change, so analyses made with the
+// old prompt are recomputed instead of served from cache
+const DEEP_PROMPT_VERSION = 5;
+
+// The deep prompt reads at most this many comments
+const MAX_PROMPT_COMMENTS = 20;
+
+/**
+ * Prompt version and model that produce deep analyses right now
+ */
+export function analysisVersion(): string {
+  const provider = getTextProvider();
+  return `deep-v${DEEP_PROMPT_VERSION}:${provider.name}/${provider.model}`;
+}
+
+// Stages left out of a deep analysis to save spend (see budget.ts) or because their
+// upstream is down. The analysis records them as missing inputs, so it is redone later.
+export interface PipelineSkips {
+  vision?: Extract<StageReason, 'budget' | 'circuit-open'>;
+  search?: Extract<StageReason, 'budget' | 'circuit-open'>;
+}
+
+/**
+ * Stages whose upstream circuit breaker is open right now
+ */
+export function openCircuitStages(): SkippedStage[] {
+  const stages: SkippedStage[] = [];
+  if (getVisionProvider().isCircuitOpen()) stages.push('vision');
+  if (isSearchCircuitOpen()) stages.push('search');
+  if (getTextProvider().isCircuitOpen()) stages.push('analysis');
+  return stages;
+}
+
+/**
+ * The inputs a deep analysis of this request is (or would be) computed from
+ */
+export function describeInputs(
+  comments: string[],
+  imageUrls: string[],
+  hasVideo: boolean,
+  linkUrls: string[],
+  skip: PipelineSkips = {}
+): AnalysisInputs {
+  return {
+    comments: Math.min(comments.length, MAX_PROMPT_COMMENTS),
+    images: skip.vision ? 0 : imageUrls.length,
+    video: !skip.vision && hasVideo,
+    links: linkUrls.length,
+    search: !skip.search && isSearchAvailable()
+  };
+}
+
+// ============================================================
+// PROVENANCE — recorded on every deep analysis, fallback included
+// ============================================================
+
+const ran = (count: number): StageProvenance => ({ status: 'ran', count });
+const skipped = (reason: StageReason): StageProvenance => ({ status: 'skipped', reason });
+const failed = (reason: StageReason): StageProvenance => ({ status: 'failed', reason });
+
+function buildProvenance(stages: Record<ProvenanceStage, StageProvenance>, fallback: boolean): AnalysisProvenance {
+  const text = getTextProvider();
+  const vision = getVisionProvider();
+  return {
+    stages,
+    models: {
+      text: `${text.name}/${text.model}`,
+      ...(stages.vision.status === 'ran' ? { vision: `${vision.name}/${vision.model}` } : {}),
+      ...(stages.search.status === 'ran' ? { search: getSearchProviderName() } : {})
+    },
+    promptVersion: `deep-v${DEEP_PROMPT_VERSION}`,
+    fallback,
+    analyzedAt: new Date().toISOString()
+  };
+}
+
 // ============================================================
 // DEEP ANALYSIS — full pipeline (called on hover)
 // Only 2 sequential stages: parallel fetch → single DeepSeek call
+// Pass `onEvent` to receive each stage as it finishes (used by /api/analyze/stream)
 // ============================================================
 
 export async function analyzePost(
@@ -232,48 +649,119 @@ export async function analyzePost(
   videoDescription: string = '',
   videoThumbnailUrl: string = '',
   imageUrls: string[] = [],
-  comments: string[] = []
+  comments: string[] = [],
+  linkUrls: string[] = [],
+  locale: string = DEFAULT_LOCALE,
+  languageHint?: string,
+  onEvent?: AnalysisEventHandler,
+  skip: PipelineSkips = {}
 ): Promise<AnalysisResult> {
 
   const hasVisuals = hasVideo || imageUrls.length > 0;
   const isSubstantive = text.length > 60;
-
-  // === STEP 1: Run vision + web search IN PARALLEL ===
-  const [visionDescription, searchResults] = await Promise.all([
+  const postLanguage = resolvePostLanguage(text, languageHint);
+  const bilingual = needsBilingualSearch(postLanguage, locale);
+  log.info('Deep: languages', { postLanguage, locale });
+
+  // Filled in by each stage as it finishes; comments are settled by the model output
+  const stages: Record<ProvenanceStage, StageProvenance> = {
+    vision: skipped('no-input'),
+    search: skipped('no-input'),
+    links: skipped('no-input'),
+    comments: comments.length > 0 ? ran(Math.min(comments.length, MAX_PROMPT_COMMENTS)) : skipped('no-input')
+  };
+
+  // === STEP 1: Run vision + claim extraction/web search + link expansion IN PARALLEL ===
+  const [visionDescription, { results: searchResults, claims, outlets }, authorReputation, { articles, articleOutlets }] = await Promise.all([
     // Vision analysis (Qwen VL)
     (async () => {
-      if (!hasVisuals || !isVisionAvailable()) return '';
+      if (!videoThumbnailUrl && imageUrls.length === 0) return '';
+      if (!isVisionAvailable()) {
+        stages.vision = skipped('not-configured');
+        return '';
+      }
+      if (skip.vision) {
+        log.info('Deep: skipping vision', { reason: skip.vision });
+        stages.vision = skipped(skip.vision);
+        return '';
+      }
+      let description = '';
+      const done = stageDuration.startTimer({ tier: 'deep', stage: 'vision' });
       try {
         if (videoThumbnailUrl) {
-          console.log('[Inkline] Deep: routing to Qwen VL for video');
-          return await analyzeImage(videoThumbnailUrl, text, author);
+          log.info('Deep: routing to vision model', { input: 'video' });
+          description = await analyzeImage(videoThumbnailUrl, text, author, locale);
         } else if (imageUrls.length > 0) {
-          console.log('[Inkline] Deep: routing to Qwen VL for images');
-          return await analyzeMultipleImages(imageUrls, text, author);
+          log.info('Deep: routing to vision model', { input: 'images', images: imageUrls.length });
+          description = await analyzeMultipleImages(imageUrls, text, author, locale);
         }
       } catch (err) {
-        console.error('[Inkline] Vision analysis failed:', err);
+        log.error('Vision analysis failed', { error: err });
       }
-      return '';
+      done();
+      // The vision helpers log and swallow their own errors, so an empty description covers both
+      stages.vision = description ? ran(videoThumbnailUrl ? 1 : Math.min(imageUrls.length, 4)) : failed('no-result');
+      if (description) onEvent?.({ stage: 'vision', videoAnalysis: description });
+      return description;
     })(),
 
-    // Web search (Tavily)
+    // Claim extraction → one web search per claim (falls back to one search for the whole post)
+    // When the post is not in the reader's language, each claim is also searched in translation
     (async () => {
-      if (!isSearchAvailable() || !isSubstantive) {
-        if (!isSubstantive) console.log('[Inkline] Deep: skipping web search — post too short');
-        return [] as SearchResult[];
+      let results: SearchResult[] = [];
+      let claims: ExtractedClaim[] = [];
+      if (!isSearchAvailable() || !isSubstantive || skip.search) {
+        if (!isSearchAvailable()) stages.search = skipped('not-configured');
+        else if (skip.search) stages.search = skipped(skip.search);
+        else stages.search = skipped('post-too-short');
+        if (isSearchAvailable()) log.info('Deep: skipping web search', { reason: stages.search.reason });
+        return { results, claims, outlets: new Map<string, ReputationEntry>() };
       }
+      const done = stageDuration.startTimer({ tier: 'deep', stage: 'search' });
       try {
-        const query = buildSearchQuery(text, author);
-        console.log('[Inkline] Deep: searching web for:', query.substring(0, 80) + '...');
-        return await searchTopic(query, 5);
+        const claimQueries = await extractClaims(text, author, bilingual ? locale : undefined);
+        if (claimQueries.length > 0) {
+          log.info('Deep: searching web per claim', { claims: claimQueries.length, languages: bilingual ? [postLanguage, locale] : [postLanguage] });
+          ({ results, claims } = await searchClaims(claimQueries, author, postLanguage, bilingual ? locale : undefined));
+        } else {
+          const query = buildSearchQuery(text, author);
+          log.info('Deep: searching web for the whole post', { query });
+          results = await searchTopic(query, 5, bilingual ? postLanguage : undefined);
+        }
       } catch (err) {
-        console.error('[Inkline] Web search failed:', err);
-        return [] as SearchResult[];
+        log.error('Web search failed', { error: err });
+        stages.search = failed('error');
       }
+      done();
+      // Counted again once the model has judged which results are relevant
+      if (stages.search.status !== 'failed') stages.search = results.length > 0 ? ran(results.length) : failed('no-result');
+      const outlets = await lookupOutlets(results.map(r => r.source));
+      onEvent?.({ stage: 'search', counterSources: searchResultsToCounterSources(results, outlets) });
+      return { results, claims, outlets };
+    })(),
+
+    // Curated reputation notes for the post author
+    lookupAccount(author),
+
+    // Linked articles (t.co etc. resolved, page fetched and reduced to readable text)
+    (async () => {
+      const done = stageDuration.startTimer({ tier: 'deep', stage: 'links' });
+      const articles = await expandLinks(text, linkUrls);
+      done();
+      if (collectLinks(text, linkUrls).length > 0) {
+        stages.links = !isLinkExpansionEnabled() ? skipped('not-configured')
+          : articles.length > 0 ? ran(articles.length) : failed('no-result');
+      }
+      const articleOutlets = await lookupOutlets(articles.map(a => a.domain));
+      return { articles, articleOutlets };
     })()
   ]);
 
+  // Outlets behind linked articles get reputation notes too
+  for (const [domain, entry] of articleOutlets) {
+    if (!outlets.has(domain)) outlets.set(domain, entry);
+  }
+
   // === STEP 2: Build context strings ===
   let visualContext = '';
   if (hasVisuals) {
@@ -303,17 +791,11 @@ export async function analyzePost(
   }
 
   // Comment context
-  console.log(`[Inkline] Deep: ${comments.length} comments received`);
+  log.debug('Deep: comments received', { comments: comments.length });
   let commentContext = '';
   if (comments.length > 0) {
     // Take up to 20 comments, truncated to keep tokens reasonable
-    const trimmedComments = comments.slice(0, 20).map((c, i) =>
-      `[${i + 1}] ${c.substring(0, 200)}`
-    );
-    commentContext = '\n--- COMMENTS / REPLIES ---';
-    commentContext += `\n${comments.length} visible comments. Here are the first ${trimmedComments.length}:`;
-    commentContext += '\n' + trimmedComments.join('\n');
-    commentContext += '\n--- END COMMENTS ---';
+    commentContext = buildCommentContext(comments);
     commentContext += '\n\nAnalyze the tone, lean, and agreement level of these comments. Highlight 2-4 notable ones.';
   }
 
@@ -321,76 +803,71 @@ export async function analyzePost(
   const userPrompt = DEEP_USER_PROMPT
     .replace('{{AUTHOR}}', author)
     .replace('{{CONTENT}}', text)
+    .replace('{{LANGUAGE_CONTEXT}}', buildLanguageContext(postLanguage, locale))
     .replace('{{VISUAL_CONTEXT}}', visualContext)
     .replace('{{WEB_CONTEXT}}', webContext)
+    .replace('{{ARTICLE_CONTEXT}}', buildArticleContext(articles))
+    .replace('{{CLAIM_CONTEXT}}', buildClaimContext(claims))
+    .replace('{{REPUTATION_CONTEXT}}', buildReputationContext(authorReputation, outlets))
     .replace('{{COMMENT_CONTEXT}}', commentContext);
 
   try {
-    const response = await getClient().chat.completions.create({
-      model: 'deepseek-chat',
-      messages: [
-        { role: 'system', content: DEEP_SYSTEM_PROMPT },
-        { role: 'user', content: userPrompt }
-      ],
-      max_tokens: 2500,
-      response_format: { type: 'json_object' }
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) throw new Error('Empty response from DeepSeek');
+    const request = deepRequest(userPrompt);
+    const done = stageDuration.startTimer({ tier: 'deep', stage: 'llm' });
+    const content = onEvent
+      ? await streamDeepCompletion(request, onEvent)
+      : await getTextProvider().complete(request);
+    done();
 
-    let cleanJson = content.trim();
-    const jsonMatch = cleanJson.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-    if (jsonMatch) cleanJson = jsonMatch[1];
+    if (!content) throw new Error(`Empty response from ${getTextProvider().name}`);
 
-    const analysis = JSON.parse(cleanJson);
-
-    if (!validateAnalysisResult(analysis)) {
-      throw new Error('Invalid analysis structure from DeepSeek');
-    }
+    const { value: output } = await parseWithRepair(request, content, deepOutputSchema);
+    const analysis = completeAnalysis(output);
 
     // Build counter-sources from articles DeepSeek judged relevant, with stance labels
-    const raw = analysis as unknown as Record<string, unknown>;
     if (searchResults.length > 0) {
-      const relevantArticles = Array.isArray(raw.relevantArticles) ? raw.relevantArticles as Array<{ index: number; stance?: string }> : [];
+      const relevantArticles = (output.relevantArticles || []).filter(a => a.index < searchResults.length);
 
       if (relevantArticles.length > 0) {
-        analysis.counterSources = relevantArticles
-          .filter(a => typeof a.index === 'number' && a.index >= 0 && a.index < searchResults.length)
-          .map(a => {
-            const r = searchResults[a.index];
-            return {
-              outlet: r.source,
-              lean: '',
-              headline: r.title,
-              url: r.url,
-              snippet: r.content,
-              stance: a.stance || 'neutral',
-              isReal: true
-            };
-          });
-        console.log(`[Inkline] Relevance: ${analysis.counterSources.length}/${searchResults.length} articles kept`);
+        analysis.counterSources = relevantArticles.map(a => {
+          const r = searchResults[a.index];
+          return {
+            outlet: r.source,
+            lean: outlets.get(r.source)?.lean || '',
+            headline: r.title,
+            url: r.url,
+            snippet: r.content,
+            stance: a.stance,
+            isReal: true
+          };
+        });
+        log.info('Relevance: articles kept', { kept: analysis.counterSources.length, found: searchResults.length });
       } else {
         // Fallback: include all if DeepSeek didn't return the array
-        analysis.counterSources = searchResultsToCounterSources(searchResults);
-        console.log(`[Inkline] Relevance: no article judgments returned, keeping all ${searchResults.length}`);
+        analysis.counterSources = searchResultsToCounterSources(searchResults, outlets);
+        log.warn('Relevance: no article judgments returned, keeping all', { found: searchResults.length });
       }
+    } else {
+      analysis.counterSources = [];
     }
+    if (stages.search.status === 'ran') stages.search = ran(analysis.counterSources.length);
 
-    // Clean up internal fields
-    delete raw.relevantArticles;
+    if (claims.length > 0) {
+      analysis.claims = buildClaimResults(claims, output.claimVerdicts, searchResults, analysis.counterSources);
+      log.info('Claims judged', { statuses: analysis.claims.map(c => c.status) });
+    }
+
+    analysis.language = postLanguage;
+    analysis.locale = locale;
 
-    // Carry counterPerspective through (already on type)
-    if (typeof raw.counterPerspective === 'string' && raw.counterPerspective.length > 0) {
-      analysis.counterPerspective = raw.counterPerspective as string;
+    if (articles.length > 0) {
+      analysis.linkedArticles = articles.map(({ body, ...article }) => article);
     }
 
-    // Carry commentAnalysis through
-    if (raw.commentAnalysis && typeof raw.commentAnalysis === 'object') {
-      analysis.commentAnalysis = raw.commentAnalysis as AnalysisResult['commentAnalysis'];
-      console.log(`[Inkline] Comment analysis returned: ${(analysis.commentAnalysis as any)?.agreementLevel}, ${(analysis.commentAnalysis as any)?.highlights?.length || 0} highlights`);
+    if (analysis.commentAnalysis) {
+      log.info('Comment analysis returned', { agreementLevel: analysis.commentAnalysis.agreementLevel, highlights: analysis.commentAnalysis.highlights.length });
     } else {
-      console.log(`[Inkline] No commentAnalysis in DeepSeek response (comments provided: ${comments.length})`);
+      log.debug('No comment analysis in the response', { commentsProvided: comments.length });
     }
 
     if (hasVideo) analysis.hasVideo = true;
@@ -398,9 +875,19 @@ export async function analyzePost(
       analysis.videoAnalysis = visionDescription;
     }
 
+    if (comments.length > 0 && !analysis.commentAnalysis) stages.comments = failed('no-result');
+    analysis.provenance = buildProvenance(stages, false);
+
+    // Only a completed analysis records its inputs; the fallback below never
+    // satisfies a cache lookup, so it is retried on the next request
+    analysis.inputs = describeInputs(comments, imageUrls, hasVideo, linkUrls, skip);
+
+    ratingsTotal.inc({ tier: 'deep', rating: analysis.overall });
     return analysis;
   } catch (error) {
-    console.error('[Inkline] Deep analysis error:', error);
+    log.error('Deep analysis error', { error });
+    fallbackResults.inc({ tier: 'deep' });
+    ratingsTotal.inc({ tier: 'deep', rating: 'amber' });
 
     return {
       overall: 'amber',
@@ -411,9 +898,107 @@ export async function analyzePost(
       tone: { rating: 'amber', label: 'Unable to assess' },
       summary: 'We were unable to fully analyze this post. Please use your own judgment.',
       confidence: 0.3,
-      counterSources: searchResults.length > 0 ? searchResultsToCounterSources(searchResults) : [],
+      counterSources: searchResults.length > 0 ? searchResultsToCounterSources(searchResults, outlets) : [],
       hasVideo,
       videoAnalysis: visionDescription || undefined,
+      // Comments only reach the model call that failed
+      provenance: buildProvenance({
+        ...stages,
+        ...(comments.length > 0 ? { comments: failed('error') } : {})
+      }, true)
+    };
+  }
+}
+
+function buildCommentContext(comments: string[]): string {
+  // Take up to MAX_PROMPT_COMMENTS comments, truncated to keep tokens reasonable
+  const trimmedComments = comments.slice(0, MAX_PROMPT_COMMENTS).map((c, i) =>
+    `[${i + 1}] ${c.substring(0, 200)}`
+  );
+  let context = '\n--- COMMENTS / REPLIES ---';
+  context += `\n${comments.length} visible comments. Here are the first ${trimmedComments.length}:`;
+  context += '\n' + trimmedComments.join('\n');
+  context += '\n--- END COMMENTS ---';
+  return context;
+}
+
+// ============================================================
+// COMMENT ENRICHMENT — add comment analysis to an existing result
+// Used when a cached analysis covers everything but the comments, so the
+// reader gets the comment section without re-running the whole pipeline
+// ============================================================
+
+const COMMENT_SYSTEM_PROMPT = `You are a media analysis assistant for Inkline. A social media post has already been analyzed; you are given the post, the analysis summary and the comments/replies under it.
+
+${COMMENT_ANALYSIS_GUIDE}
+
+Respond with JSON only:
+{
+  "commentAnalysis": {
+    "overallTone": "Brief description of comment section tone",
+    "leaningSummary": "1-2 sentences on ideological lean of comments",
+    "agreementLevel": "echo-chamber|mostly-agree|mixed|mostly-disagree|polarised",
+    "highlights": [
+      { "author": "username", "text": "Notable comment text", "reason": "Why it's worth reading", "sentiment": "agree|disagree|nuanced|neutral" }
+    ]
+  }
+}`;
+
+const commentOutputSchema = partialObject<{ commentAnalysis: CommentAnalysis }>({
+  commentAnalysis: commentAnalysisSchema
+});
+
+/**
+ * Return `analysis` with commentAnalysis computed from `comments`.
+ * On failure the analysis is returned unchanged (its inputs still show no comments).
+ */
+export async function enrichWithComments(
+  text: string,
+  author: string,
+  analysis: AnalysisResult,
+  comments: string[],
+  locale: string = DEFAULT_LOCALE
+): Promise<AnalysisResult> {
+  if (comments.length === 0) return analysis;
+
+  const postLanguage = analysis.language || resolvePostLanguage(text);
+  const request: CompletionRequest = {
+    purpose: 'comments',
+    messages: [
+      { role: 'system', content: COMMENT_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Author: ${author}\nPost: ${text}\nAnalysis summary: ${analysis.summary}`
+          + buildLanguageContext(postLanguage, locale)
+          + buildCommentContext(comments)
+      }
+    ],
+    maxTokens: 800,
+    json: true
+  };
+
+  try {
+    const content = await getTextProvider().complete(request);
+    if (!content) throw new Error(`Empty response from ${getTextProvider().name}`);
+
+    const { value } = await parseWithRepair(request, content, commentOutputSchema);
+    if (!value.commentAnalysis) throw new Error('No usable commentAnalysis in model output');
+
+    log.info('Comment enrichment', { agreementLevel: value.commentAnalysis.agreementLevel, highlights: value.commentAnalysis.highlights.length });
+    return {
+      ...analysis,
+      commentAnalysis: value.commentAnalysis,
+      ...(analysis.inputs ? { inputs: { ...analysis.inputs, comments: Math.min(comments.length, MAX_PROMPT_COMMENTS) } } : {}),
+      ...(analysis.provenance ? {
+        provenance: {
+          ...analysis.provenance,
+          stages: { ...analysis.provenance.stages, comments: ran(Math.min(comments.length, MAX_PROMPT_COMMENTS)) },
+          commentsAddedAt: new Date().toISOString()
+        }
+      } : {})
     };
+  } catch (error) {
+    log.error('Comment enrichment error', { error });
+    return analysis;
   }
 }
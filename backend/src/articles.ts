@@ -0,0 +1,319 @@
+// Inkline - Linked-Article Expansion
+// Resolves links in a post (t.co and other shorteners), fetches the target page and
+// extracts readable article text, so the deep prompt can judge the linked piece
+// rather than only the post's teaser.
+//   ARTICLE_FETCH_MODE = live (default) | fixtures | off
+//   ARTICLE_FIXTURES_PATH = JSON file { "<url>": { "url": "<final url>", "html": "..." } }
+
+import dns from 'dns/promises';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { LinkedArticle } from './types';
+import { log } from './logger';
+
+// Links expanded per post
+const MAX_LINKS = 2;
+// Per-link budget for redirects + download
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_REDIRECTS = 5;
+// Bytes of HTML read before giving up on the rest of the page
+const MAX_HTML_BYTES = 1024 * 1024;
+// Characters of article body kept / given to the model
+const MAX_BODY_CHARS = 4000;
+const PROMPT_BODY_CHARS = 1500;
+
+interface FetchedPage {
+  url: string;     // final URL after redirects
+  html: string;
+}
+
+// ============================================================
+// LINK COLLECTION
+// ============================================================
+
+/**
+ * Collect the links to expand: ones sent by the extension first, then any in the text
+ */
+export function collectLinks(text: string, linkUrls: string[] = []): string[] {
+  const inText = text.match(/https?:\/\/[^\s"'<>]+/g) || [];
+  const unique: string[] = [];
+  for (const raw of [...linkUrls, ...inText]) {
+    const url = raw.replace(/[).,!?…]+$/, '');
+    if (!/^https?:\/\//i.test(url) || unique.includes(url)) continue;
+    unique.push(url);
+  }
+  return unique.slice(0, MAX_LINKS);
+}
+
+// ============================================================
+// FETCHING — live (with SSRF guards) or from fixtures
+// ============================================================
+
+// Addresses a fetched link must never reach: private, loopback, link-local, shared,
+// benchmarking, multicast and reserved ranges. BlockList also checks IPv4-mapped
+// IPv6 addresses (::ffff:a.b.c.d, however written) against the IPv4 ranges.
+const BLOCKED_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 96, 'ipv6'],            // unspecified, loopback and IPv4-compatible (::a.b.c.d)
+  ['64:ff9b::', 96, 'ipv6'],     // NAT64: reaches any IPv4 address, internal ones included
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix, family] of BLOCKED_RANGES) blockedAddresses.addSubnet(network, prefix, family);
+
+/**
+ * Whether an IP address is in a range links may not reach; anything that is not
+ * an IP address counts as private
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolves like dns.lookup, but fails if the host has any private address. It is
+// passed to the connection itself, so the address checked is the address connected
+// to — a second lookup could be answered differently (DNS rebinding).
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { all: true, family: options.family }).then(addresses => {
+    if (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address))) {
+      throw new Error(`Refusing to fetch private address for ${hostname}`);
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  }).catch(error => callback(error, '', 0));
+};
+
+// Only public http(s) hosts on default ports — user-supplied URLs must not reach internal services.
+// Host names are checked as they are resolved (publicLookup); IP literals are never looked up.
+export function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error(`Unsupported protocol ${url.protocol}`);
+  if (url.port && url.port !== '80' && url.port !== '443') throw new Error(`Unsupported port ${url.port}`);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    throw new Error(`Refusing to fetch private address for ${url.hostname}`);
+  }
+}
+
+function get(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    client.get(url, {
+      lookup: publicLookup,
+      signal,
+      headers: { 'User-Agent': 'InklineBot/1.0 (+media literacy link preview)', 'Accept': 'text/html' }
+    }, resolve).on('error', reject);
+  });
+}
+
+async function readLimited(response: http.IncomingMessage): Promise<string> {
+  const decoder = new TextDecoder();
+  let html = '';
+  let bytes = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    bytes += chunk.byteLength;
+    html += decoder.decode(chunk, { stream: true });
+    if (bytes >= MAX_HTML_BYTES) break;
+  }
+  response.destroy();
+  return html;
+}
+
+async function fetchLive(startUrl: string): Promise<FetchedPage | null> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+
+  let url = new URL(startUrl);
+  // Redirects are followed by hand so every hop passes the address check
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertPublicUrl(url);
+    const response = await get(url, signal);
+    const status = response.statusCode || 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      throw new Error(`HTTP ${status}`);
+    }
+    const type = response.headers['content-type'] || '';
+    if (!type.includes('text/html') && !type.includes('application/xhtml')) {
+      response.destroy();
+      throw new Error(`Not an HTML page (${type || 'no content-type'})`);
+    }
+    return { url: url.toString(), html: await readLimited(response) };
+  }
+  throw new Error('Too many redirects');
+}
+
+let _fixtures: Record<string, FetchedPage> | null = null;
+function fetchFixture(url: string): FetchedPage | null {
+  if (!_fixtures) {
+    const file = process.env.ARTICLE_FIXTURES_PATH || '';
+    try {
+      _fixtures = file ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+    } catch (error) {
+      log.error('Article fixtures load error', { error });
+      _fixtures = {};
+    }
+  }
+  const fixture = _fixtures![url];
+  return fixture ? { url: fixture.url || url, html: fixture.html || '' } : null;
+}
+
+// ============================================================
+// EXTRACTION — regex-based; good enough for article pages
+// ============================================================
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function cleanText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function metaContent(html: string, key: string): string {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const patterns = [
+    new RegExp(`<meta[^>]+(?:property|name)=["']${escaped}["'][^>]*content=["']([^"']*)["']`, 'i'),
+    new RegExp(`<meta[^>]+content=["']([^"']*)["'][^>]*(?:property|name)=["']${escaped}["']`, 'i')
+  ];
+  for (const p of patterns) {
+    const m = html.match(p);
+    if (m && m[1].trim()) return decodeEntities(m[1].trim());
+  }
+  return '';
+}
+
+function extractBody(html: string): string {
+  const stripped = html
+    .replace(/<(script|style|noscript|nav|header|footer|aside|form|svg)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ');
+
+  // Prefer paragraphs inside <article>, fall back to every paragraph on the page
+  const article = stripped.match(/<article[\s\S]*?<\/article>/i);
+  const scope = article ? article[0] : stripped;
+  const paragraphs = (scope.match(/<p[\s>][\s\S]*?<\/p>/gi) || [])
+    .map(cleanText)
+    .filter(p => p.length > 40);
+
+  return paragraphs.join('\n\n').substring(0, MAX_BODY_CHARS);
+}
+
+/**
+ * Extract title, byline, publish date and body text from an article page
+ */
+export function extractArticle(url: string, html: string): LinkedArticle {
+  let domain = url;
+  try {
+    domain = new URL(url).hostname.replace(/^www\./, '');
+  } catch { /* keep raw url */ }
+
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const timeTag = html.match(/<time[^>]+datetime=["']([^"']+)["']/i);
+
+  const article: LinkedArticle = {
+    url,
+    domain,
+    title: metaContent(html, 'og:title') || (titleTag ? cleanText(titleTag[1]) : ''),
+    body: extractBody(html)
+  };
+
+  const byline = metaContent(html, 'author') || metaContent(html, 'article:author') || metaContent(html, 'parsely-author');
+  if (byline && !/^https?:\/\//.test(byline)) article.byline = byline;
+
+  const published = metaContent(html, 'article:published_time') || metaContent(html, 'date')
+    || metaContent(html, 'parsely-pub-date') || (timeTag ? timeTag[1] : '');
+  if (published) article.publishedAt = published;
+
+  return article;
+}
+
+// ============================================================
+// PIPELINE STAGE
+// ============================================================
+
+/**
+ * Whether linked pages are fetched at all (ARTICLE_FETCH_MODE is not "off")
+ */
+export function isLinkExpansionEnabled(): boolean {
+  return (process.env.ARTICLE_FETCH_MODE || 'live') !== 'off';
+}
+
+/**
+ * Resolve and fetch the links in a post. Never throws; links that fail are skipped.
+ */
+export async function expandLinks(text: string, linkUrls: string[] = []): Promise<LinkedArticle[]> {
+  if (!isLinkExpansionEnabled()) return [];
+  const mode = process.env.ARTICLE_FETCH_MODE || 'live';
+
+  const links = collectLinks(text, linkUrls);
+  if (links.length === 0) return [];
+
+  const articles = await Promise.all(links.map(async (link) => {
+    try {
+      const page = mode === 'fixtures' ? fetchFixture(link) : await fetchLive(link);
+      if (!page) return null;
+      const article = extractArticle(page.url, page.html);
+      // A page with neither title nor body (paywall, app shell) adds nothing
+      if (!article.title && !article.body) return null;
+      return article;
+    } catch (error) {
+      log.warn('Link expansion failed', { link, error: error instanceof Error ? error.message : error });
+      return null;
+    }
+  }));
+
+  const found = articles.filter((a): a is LinkedArticle => a !== null);
+  log.info('Links expanded', { expanded: found.length, links: links.length });
+  return found;
+}
+
+/**
+ * Prompt section with a digest of each linked article
+ */
+export function buildArticleContext(articles: LinkedArticle[]): string {
+  if (articles.length === 0) return '';
+
+  let context = '\n--- LINKED ARTICLES (fetched from links in the post) ---';
+  articles.forEach((a, i) => {
+    context += `\n\n[Link ${i + 1}] ${a.url} (${a.domain})`;
+    if (a.title) context += `\n    Title: ${a.title}`;
+    if (a.byline) context += `\n    Byline: ${a.byline}`;
+    if (a.publishedAt) context += `\n    Published: ${a.publishedAt}`;
+    if (a.body) {
+      const excerpt = a.body.length > PROMPT_BODY_CHARS ? `${a.body.substring(0, PROMPT_BODY_CHARS)}...` : a.body;
+      context += `\n    Article text: ${excerpt}`;
+    }
+  });
+  context += '\n--- END LINKED ARTICLES ---';
+  return context;
+}
@@ -0,0 +1,177 @@
+// Inkline - Author History
+// Remembers the ratings each account's posts received, so the panel can give
+// context on the account ("recent posts were mostly amber on Tone"), not just the post
+
+import crypto from 'crypto';
+import { getCollection } from './store';
+import {
+  AnalysisResult, AuthorHistory, AuthorPostRecord, AuthorProfile, DimensionKey,
+  QuickResult, Rating, RatingCounts, RatingTrend
+} from './types';
+import { log } from './logger';
+
+const authors = getCollection<AuthorHistory>('authors');
+
+// Records kept per author (oldest dropped first)
+const MAX_RECORDS_PER_AUTHOR = 200;
+// Posts counted as "recent" in profiles and trends
+const RECENT_WINDOW = 20;
+// Timeline entries returned by the API
+const TIMELINE_LENGTH = 50;
+// Mean score change (green=0, amber=1, red=2) that counts as a trend
+const TREND_THRESHOLD = 0.25;
+
+const DIMENSIONS: DimensionKey[] = ['perspective', 'verification', 'balance', 'source', 'tone'];
+const RATING_SCORE: Record<Rating, number> = { green: 0, amber: 1, red: 2 };
+
+/**
+ * Normalize an author handle for storage: lowercase, no leading "@"
+ */
+export function normalizeHandle(author: string): string {
+  return author.trim().replace(/^@/, '').toLowerCase();
+}
+
+function isKnownAuthor(handle: string): boolean {
+  return handle.length > 0 && handle !== 'unknown';
+}
+
+// Also identifies posts in the feedback store
+export function postHash(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex').substring(0, 16);
+}
+
+// Updates to one author's history are read-modify-write, so this instance applies
+// them one at a time (a batch often holds several posts by the same author)
+const pendingUpdates = new Map<string, Promise<void>>();
+
+async function record(author: string, entry: AuthorPostRecord): Promise<void> {
+  const handle = normalizeHandle(author);
+  if (!isKnownAuthor(handle)) return;
+
+  const update = (pendingUpdates.get(handle) || Promise.resolve()).then(() => applyRecord(handle, entry));
+  pendingUpdates.set(handle, update);
+  await update;
+  if (pendingUpdates.get(handle) === update) pendingUpdates.delete(handle);
+}
+
+// Never throws, so a failed update does not stop the ones queued behind it
+async function applyRecord(handle: string, entry: AuthorPostRecord): Promise<void> {
+  try {
+    const history = await authors.get(handle) || { handle, posts: [] };
+
+    // A deep result replaces an earlier quick one for the same post
+    const existing = history.posts.findIndex(p => p.postHash === entry.postHash);
+    if (existing >= 0) {
+      if (history.posts[existing].depth === 'deep' && entry.depth === 'quick') return;
+      history.posts.splice(existing, 1);
+    }
+
+    history.posts.push(entry);
+    if (history.posts.length > MAX_RECORDS_PER_AUTHOR) {
+      history.posts = history.posts.slice(-MAX_RECORDS_PER_AUTHOR);
+    }
+    await authors.set(handle, history);
+  } catch (error) {
+    log.error('Author history record error', { error });
+  }
+}
+
+/**
+ * Remember a quick-scan rating for this author. Never throws.
+ */
+export async function recordQuickRating(author: string, text: string, result: QuickResult): Promise<void> {
+  // The placeholder from a failed scan says nothing about the author
+  if (result.fallback) return;
+  await record(author, {
+    postHash: postHash(text),
+    date: new Date().toISOString(),
+    depth: 'quick',
+    overall: result.overall
+  });
+}
+
+/**
+ * Remember a deep analysis (overall + dimension ratings) for this author. Never throws.
+ */
+export async function recordDeepRating(author: string, text: string, analysis: AnalysisResult): Promise<void> {
+  const dimensions = {} as Record<DimensionKey, Rating>;
+  for (const dim of DIMENSIONS) dimensions[dim] = analysis[dim].rating;
+
+  await record(author, {
+    postHash: postHash(text),
+    date: new Date().toISOString(),
+    depth: 'deep',
+    overall: analysis.overall,
+    dimensions
+  });
+}
+
+// ============================================================
+// PROFILE — aggregates and trends for GET /api/authors/:handle
+// ============================================================
+
+function countRatings(ratings: Rating[]): RatingCounts {
+  const counts: RatingCounts = { green: 0, amber: 0, red: 0 };
+  for (const r of ratings) counts[r]++;
+  return counts;
+}
+
+// Compares the newer half of the ratings with the older half
+function trendOf(ratings: Rating[]): RatingTrend {
+  if (ratings.length < 4) return 'insufficient-data';
+  const mid = Math.floor(ratings.length / 2);
+  const mean = (rs: Rating[]) => rs.reduce((sum, r) => sum + RATING_SCORE[r], 0) / rs.length;
+  const delta = mean(ratings.slice(mid)) - mean(ratings.slice(0, mid));
+  if (delta <= -TREND_THRESHOLD) return 'improving';
+  if (delta >= TREND_THRESHOLD) return 'worsening';
+  return 'stable';
+}
+
+function dimensionRatings(posts: AuthorPostRecord[], dim: DimensionKey): Rating[] {
+  return posts.filter(p => p.dimensions).map(p => p.dimensions![dim]);
+}
+
+/**
+ * Build the aggregate profile for an author, or null if nothing is recorded
+ */
+export async function getAuthorProfile(author: string): Promise<AuthorProfile | null> {
+  const handle = normalizeHandle(author);
+  if (!isKnownAuthor(handle)) return null;
+
+  const history = await authors.get(handle);
+  if (!history || history.posts.length === 0) return null;
+
+  const posts = [...history.posts].sort((a, b) => a.date.localeCompare(b.date));
+  const recent = posts.slice(-RECENT_WINDOW);
+
+  const dimensions = {} as Record<DimensionKey, RatingCounts>;
+  const recentDimensions = {} as Record<DimensionKey, RatingCounts>;
+  const trends = { overall: trendOf(recent.map(p => p.overall)) } as AuthorProfile['trends'];
+  for (const dim of DIMENSIONS) {
+    dimensions[dim] = countRatings(dimensionRatings(posts, dim));
+    recentDimensions[dim] = countRatings(dimensionRatings(recent, dim));
+    trends[dim] = trendOf(dimensionRatings(recent, dim));
+  }
+
+  return {
+    handle,
+    postCount: posts.length,
+    deepCount: posts.filter(p => p.depth === 'deep').length,
+    firstSeen: posts[0].date,
+    lastSeen: posts[posts.length - 1].date,
+    overall: countRatings(posts.map(p => p.overall)),
+    dimensions,
+    recent: {
+      postCount: recent.length,
+      overall: countRatings(recent.map(p => p.overall)),
+      dimensions: recentDimensions
+    },
+    trends,
+    timeline: posts.slice(-TIMELINE_LENGTH).map(p => ({
+      date: p.date,
+      depth: p.depth,
+      overall: p.overall,
+      ...(p.dimensions ? { dimensions: p.dimensions } : {})
+    }))
+  };
+}
@@ -0,0 +1,85 @@
+// Inkline - Spend Governor
+// Keeps LLM, vision and search spend inside BUDGET_DAILY_USD and BUDGET_MONTHLY_USD
+// (either may be left unset). As spend approaches the tighter of the two, the
+// pipeline steps down instead of running up the bill:
+//   70%  skip vision     80%  skip web search
+//   90%  deep requests are answered with a quick scan
+//   100% only cached analyses are served
+// Spend comes from the usage records (usage.ts) and is re-read every few seconds.
+
+import { getSpend } from './usage';
+import { BudgetStatus, Degradation } from './types';
+import { log } from './logger';
+
+// Share of the budget spent at which each step starts; steps accumulate
+const STEPS: Array<{ degradation: Degradation; at: number }> = [
+  { degradation: 'skip-vision', at: 0.7 },
+  { degradation: 'skip-search', at: 0.8 },
+  { degradation: 'quick-only', at: 0.9 },
+  { degradation: 'cache-only', at: 1 }
+];
+
+// Spend is cached this long, so a burst of requests reads it once
+const SPEND_REFRESH_MS = 5 * 1000;
+
+let spend = { day: 0, month: 0 };
+let spendReadAt = 0;
+let pending: Promise<void> | null = null;
+
+function budgetLimit(name: string): number | null {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// On a read error the last known spend is kept — a store hiccup should not
+// switch the service to cache-only, nor reset it to full spend
+async function refreshSpend(): Promise<void> {
+  if (Date.now() - spendReadAt < SPEND_REFRESH_MS) return;
+  if (!pending) {
+    pending = getSpend()
+      .then(value => { spend = value; })
+      .catch(error => log.error('Budget spend read error', { error }))
+      .finally(() => {
+        spendReadAt = Date.now();
+        pending = null;
+      });
+  }
+  await pending;
+}
+
+function degradationsFor(used: number): Degradation[] {
+  return STEPS.filter(step => used >= step.at).map(step => step.degradation);
+}
+
+let lastLogged = '';
+
+/**
+ * Spend against the configured budgets and the steps currently in force
+ */
+export async function getBudgetStatus(): Promise<BudgetStatus> {
+  const daily = budgetLimit('BUDGET_DAILY_USD');
+  const monthly = budgetLimit('BUDGET_MONTHLY_USD');
+  if (daily !== null || monthly !== null) await refreshSpend();
+
+  const used = Math.max(daily ? spend.day / daily : 0, monthly ? spend.month / monthly : 0);
+  const degradations = degradationsFor(used);
+
+  const summary = degradations.join(', ') || 'none';
+  if (summary !== lastLogged) {
+    log.info('Budget', { usedPercent: Math.round(used * 100), degradations });
+    lastLogged = summary;
+  }
+
+  return {
+    daily: { limitUsd: daily, spentUsd: Math.round(spend.day * 10000) / 10000 },
+    monthly: { limitUsd: monthly, spentUsd: Math.round(spend.month * 10000) / 10000 },
+    degradations
+  };
+}
+
+/**
+ * The steps currently in force, mildest first (empty while under 70% of the budget)
+ */
+export async function currentDegradations(): Promise<Degradation[]> {
+  return (await getBudgetStatus()).degradations;
+}
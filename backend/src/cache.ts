@@ -1,14 +1,63 @@
 // Think Social - Redis Caching Layer
+// Two tiers: a bounded in-process LRU in front of Redis. Without REDIS_URL the
+// in-process tier is the whole cache, so small deployments still skip repeat analyses.
 
 import Redis from 'ioredis';
 import crypto from 'crypto';
-import { AnalysisResult } from './types';
+import { AnalysisInputs, AnalysisResult } from './types';
+import { DEFAULT_LOCALE } from './language';
+import { createLruCache, LruCache, LruStats } from './lru';
+import { createCollected } from './metrics';
+import { fingerprint, fingerprintBands, hammingDistance, similarity, FINGERPRINT_BANDS, NEAR_DUPLICATE_MAX_DISTANCE } from './fingerprint';
+import { log } from './logger';
 
 // Redis client - will connect to Upstash or local Redis
 let redis: Redis | null = null;
 
+// In-process tier; null when CACHE_MEMORY_MAX_ENTRIES=0
+let memory: LruCache | null = null;
+
+const DEFAULT_MEMORY_MAX_ENTRIES = 500;
+const DEFAULT_MEMORY_MAX_MB = 64;
+
+// Lookups since startup, by the tier that answered (`nearDuplicate` hits are
+// served from another post's entry; `upgrades` found an entry that did not cover the request)
+const counters = { memoryHits: 0, redisHits: 0, nearDuplicate: 0, upgrades: 0, misses: 0, writes: 0 };
+
+export interface CacheStatus {
+  tiers: Array<'memory' | 'redis'>;        // tiers currently serving lookups, fastest first
+  memory: LruStats | null;
+  redis: 'connected' | 'disconnected' | 'not configured';
+  hits: { memory: number; redis: number; nearDuplicate: number };
+  upgrades: number;
+  misses: number;
+  writes: number;
+  hitRate: number;                         // usable hits over all lookups, 0-1; 0 before the first
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && process.env[name] !== '' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function initMemoryTier(): void {
+  const maxEntries = Math.floor(envNumber('CACHE_MEMORY_MAX_ENTRIES', DEFAULT_MEMORY_MAX_ENTRIES));
+  const maxBytes = Math.floor(envNumber('CACHE_MEMORY_MAX_MB', DEFAULT_MEMORY_MAX_MB) * 1024 * 1024);
+
+  if (maxEntries === 0 || maxBytes === 0) {
+    memory = null;
+    log.info('In-memory cache disabled');
+    return;
+  }
+  memory = createLruCache({ maxEntries, maxBytes });
+  nearIndexLimit = maxEntries * FINGERPRINT_BANDS;
+  log.info('In-memory cache', { maxEntries, maxMb: Math.round(maxBytes / 1024 / 1024) });
+}
+
 // Initialize Redis connection
 export function initCache(): void {
+  initMemoryTier();
+
   const redisUrl = process.env.REDIS_URL;
   
   if (redisUrl) {
@@ -20,75 +69,286 @@ export function initCache(): void {
       });
       
       redis.on('connect', () => {
-        console.log('[Inkline] Redis connected');
+        log.info('Redis connected');
       });
       
       redis.on('error', (err) => {
-        console.error('[Inkline] Redis error:', err.message);
+        log.error('Redis error', { error: err.message });
       });
       
       // Connect
       redis.connect().catch((err) => {
-        console.error('[Inkline] Redis connection failed:', err.message);
+        log.error('Redis connection failed', { error: err.message });
         redis = null;
       });
     } catch (error) {
-      console.error('[Inkline] Redis init error:', error);
+      log.error('Redis init error', { error });
       redis = null;
     }
   } else {
-    console.log('[Inkline] No REDIS_URL configured, caching disabled');
+    log.info('No REDIS_URL configured', { caching: memory ? 'memory only' : 'disabled' });
   }
 }
 
-// Generate cache key from post content
-function generateCacheKey(text: string): string {
+// Generate cache key from post content; analyses written in another language are kept apart.
+// v2 entries record the inputs and version behind the analysis (see CachedAnalysis)
+function generateCacheKey(text: string, locale: string): string {
   const hash = crypto.createHash('sha256').update(text).digest('hex').substring(0, 16);
-  return `ts:analysis:${hash}`;
+  return locale === DEFAULT_LOCALE ? `ts:analysis:v2:${hash}` : `ts:analysis:v2:${locale}:${hash}`;
 }
 
 // Cache TTL in seconds (24 hours)
 const CACHE_TTL = 24 * 60 * 60;
 
-// Get cached analysis
-export async function getCachedAnalysis(text: string): Promise<AnalysisResult | null> {
-  if (!redis) return null;
-  
-  try {
-    const key = generateCacheKey(text);
-    const cached = await redis.get(key);
-    
-    if (cached) {
-      console.log('[Inkline] Cache hit:', key);
-      return JSON.parse(cached) as AnalysisResult;
+interface CachedAnalysis {
+  analysis: AnalysisResult;    // analysis.inputs says what it was computed from
+  version: string;             // prompt version and model (analysisVersion())
+  cachedAt: string;            // ISO timestamp
+}
+
+// What a request needs from a cached analysis. Quick scans accept any completed
+// analysis; deep requests need the current version and at least their own inputs.
+export type CacheRequirement =
+  | { depth: 'quick' }
+  | { depth: 'deep'; inputs: AnalysisInputs; version: string };
+
+export type MissingInput = keyof AnalysisInputs | 'version';
+
+export interface CacheLookup {
+  analysis: AnalysisResult;
+  usable: boolean;             // good enough for the request as it is
+  missing: MissingInput[];     // why not: what the request has that the analysis lacks
+}
+
+// ============================================================
+// NEAR-DUPLICATE INDEX — fingerprint band → cache entries
+// Kept in Redis when connected (shared across instances), else in memory
+// ============================================================
+
+// Memory index: band key → "<cache key> <fingerprint>" members, oldest bands dropped first
+const nearIndex = new Map<string, Set<string>>();
+let nearIndexLimit = DEFAULT_MEMORY_MAX_ENTRIES * FINGERPRINT_BANDS;
+
+function bandKey(locale: string, band: string): string {
+  return `ts:simhash:${locale}:${band}`;
+}
+
+async function indexFingerprint(key: string, print: string, locale: string): Promise<void> {
+  const member = `${key} ${print}`;
+  const bands = fingerprintBands(print).map(band => bandKey(locale, band));
+
+  if (isCacheAvailable()) {
+    try {
+      const pipeline = redis!.pipeline();
+      for (const band of bands) pipeline.sadd(band, member).expire(band, CACHE_TTL);
+      await pipeline.exec();
+    } catch (error) {
+      log.error('Near-duplicate index error', { error });
     }
-    
-    console.log('[Inkline] Cache miss:', key);
-    return null;
-  } catch (error) {
-    console.error('[Inkline] Cache get error:', error);
+    return;
+  }
+
+  for (const band of bands) {
+    const members = nearIndex.get(band) || new Set<string>();
+    members.add(member);
+    nearIndex.delete(band);
+    nearIndex.set(band, members);
+  }
+  while (nearIndex.size > nearIndexLimit) {
+    nearIndex.delete(nearIndex.keys().next().value as string);
+  }
+}
+
+// Cache keys of near-identical posts, closest first
+async function nearDuplicateKeys(print: string, locale: string, exclude: string): Promise<Array<{ key: string; print: string }>> {
+  const bands = fingerprintBands(print).map(band => bandKey(locale, band));
+  let members: string[] = [];
+
+  if (isCacheAvailable()) {
+    try {
+      const results = await Promise.all(bands.map(band => redis!.smembers(band)));
+      members = results.flat();
+    } catch (error) {
+      log.error('Near-duplicate lookup error', { error });
+    }
+  } else {
+    members = bands.flatMap(band => Array.from(nearIndex.get(band) || []));
+  }
+
+  const seen = new Set<string>();
+  return members
+    .map(member => {
+      const [key, candidate] = member.split(' ');
+      return { key, print: candidate };
+    })
+    .filter(c => c.key !== exclude && !seen.has(c.key) && seen.add(c.key))
+    .filter(c => hammingDistance(print, c.print) <= NEAR_DUPLICATE_MAX_DISTANCE)
+    .sort((a, b) => hammingDistance(print, a.print) - hammingDistance(print, b.print));
+}
+
+// Inputs the request has that the cached analysis was computed without
+function missingInputs(entry: CachedAnalysis, need: CacheRequirement): MissingInput[] {
+  const have = entry.analysis.inputs;
+  // Analyses without recorded inputs are fallbacks from a failed run
+  if (!have) return ['version'];
+  if (need.depth === 'quick') return [];
+
+  const missing: MissingInput[] = [];
+  if (entry.version !== need.version) missing.push('version');
+  if (need.inputs.comments > have.comments) missing.push('comments');
+  if (need.inputs.images > have.images) missing.push('images');
+  if (need.inputs.video && !have.video) missing.push('video');
+  if (need.inputs.links > have.links) missing.push('links');
+  if (need.inputs.search && !have.search) missing.push('search');
+  return missing;
+}
+
+async function readEntry(key: string): Promise<{ entry: CachedAnalysis; tier: 'memory' | 'redis' } | null> {
+  const local = memory?.get(key);
+  if (local) return { entry: JSON.parse(local) as CachedAnalysis, tier: 'memory' };
+
+  if (isCacheAvailable()) {
+    try {
+      const [cached, ttl] = await Promise.all([redis!.get(key), redis!.ttl(key)]);
+      if (cached) {
+        // Promote into memory for the rest of the entry's lifetime
+        memory?.set(key, cached, ttl > 0 ? ttl : CACHE_TTL);
+        return { entry: JSON.parse(cached) as CachedAnalysis, tier: 'redis' };
+      }
+    } catch (error) {
+      log.error('Cache get error', { error });
+    }
+  }
+  return null;
+}
+
+// Record on a served analysis which tier it came from (analyses cached before
+// provenance existed are returned as they are)
+function withCacheOrigin(entry: CachedAnalysis, origin: 'memory' | 'redis' | 'near-duplicate'): AnalysisResult {
+  const { analysis } = entry;
+  if (!analysis.provenance) return analysis;
+  return { ...analysis, provenance: { ...analysis.provenance, cache: { origin, cachedAt: entry.cachedAt } } };
+}
+
+/**
+ * Look up the cached analysis of a post and judge it against what the request needs.
+ * Without a usable entry for the exact text, a usable analysis of a near-identical
+ * post is returned instead, flagged with `nearDuplicate`. Returns null when nothing
+ * is cached; an exact entry that is not `usable` can still be enriched (e.g. only
+ * comments are missing) instead of recomputed.
+ */
+export async function lookupAnalysis(text: string, locale: string, need: CacheRequirement): Promise<CacheLookup | null> {
+  const key = generateCacheKey(text, locale);
+  const found = await readEntry(key);
+  const missing = found ? missingInputs(found.entry, need) : [];
+
+  if (found && missing.length === 0) {
+    if (found.tier === 'memory') counters.memoryHits++;
+    else counters.redisHits++;
+    log.info('Cache hit', { tier: found.tier, key });
+    return { analysis: withCacheOrigin(found.entry, found.tier), usable: true, missing };
+  }
+
+  const print = fingerprint(text);
+  if (print) {
+    for (const candidate of await nearDuplicateKeys(print, locale, key)) {
+      const near = await readEntry(candidate.key);
+      if (!near || missingInputs(near.entry, need).length > 0) continue;
+
+      counters.nearDuplicate++;
+      log.info('Cache hit', { tier: 'near-duplicate', key, of: candidate.key });
+      return {
+        analysis: { ...withCacheOrigin(near.entry, 'near-duplicate'), nearDuplicate: { similarity: similarity(print, candidate.print) } },
+        usable: true,
+        missing: []
+      };
+    }
+  }
+
+  if (!found) {
+    counters.misses++;
+    log.info('Cache miss', { key });
     return null;
   }
+
+  counters.upgrades++;
+  log.info('Cache needs upgrade', { tier: found.tier, key, missing });
+  return { analysis: found.entry.analysis, usable: false, missing };
 }
 
-// Save analysis to cache
-export async function cacheAnalysis(text: string, analysis: AnalysisResult): Promise<void> {
-  if (!redis) return;
-  
-  try {
-    const key = generateCacheKey(text);
-    await redis.setex(key, CACHE_TTL, JSON.stringify(analysis));
-    console.log('[Inkline] Cached:', key);
-  } catch (error) {
-    console.error('[Inkline] Cache set error:', error);
+/**
+ * Exact-text lookup without statistics or logging, for polling while another
+ * instance computes the analysis. Returns the analysis only if it covers `need`.
+ */
+export async function peekAnalysis(text: string, locale: string, need: CacheRequirement): Promise<AnalysisResult | null> {
+  const found = await readEntry(generateCacheKey(text, locale));
+  return found && missingInputs(found.entry, need).length === 0 ? found.entry.analysis : null;
+}
+
+// Save analysis to every available tier
+export async function cacheAnalysis(text: string, analysis: AnalysisResult, locale: string, version: string): Promise<void> {
+  if (!memory && !isCacheAvailable()) return;
+
+  const key = generateCacheKey(text, locale);
+  const print = fingerprint(text);
+  const entry: CachedAnalysis = { analysis, version, cachedAt: new Date().toISOString() };
+  const serialized = JSON.stringify(entry);
+  memory?.set(key, serialized, CACHE_TTL);
+  counters.writes++;
+
+  if (isCacheAvailable()) {
+    try {
+      await redis!.setex(key, CACHE_TTL, serialized);
+    } catch (error) {
+      log.error('Cache set error', { error });
+    }
   }
+  if (print) await indexFingerprint(key, print, locale);
+  log.debug('Cached', { key });
+}
+
+// Tier configuration and hit/miss counts, for /health
+export function getCacheStatus(): CacheStatus {
+  const hits = counters.memoryHits + counters.redisHits + counters.nearDuplicate;
+  const lookups = hits + counters.upgrades + counters.misses;
+  const tiers: CacheStatus['tiers'] = [];
+  if (memory) tiers.push('memory');
+  if (isCacheAvailable()) tiers.push('redis');
+
+  return {
+    tiers,
+    memory: memory ? memory.stats() : null,
+    redis: isCacheAvailable() ? 'connected' : process.env.REDIS_URL ? 'disconnected' : 'not configured',
+    hits: { memory: counters.memoryHits, redis: counters.redisHits, nearDuplicate: counters.nearDuplicate },
+    upgrades: counters.upgrades,
+    misses: counters.misses,
+    writes: counters.writes,
+    hitRate: lookups > 0 ? Math.round((hits / lookups) * 1000) / 1000 : 0
+  };
 }
 
-// Check if cache is available
+createCollected('inkline_cache_lookups_total', 'Analysis cache lookups by result', 'counter', () => [
+  { labels: { result: 'memory_hit' }, value: counters.memoryHits },
+  { labels: { result: 'redis_hit' }, value: counters.redisHits },
+  { labels: { result: 'near_duplicate_hit' }, value: counters.nearDuplicate },
+  { labels: { result: 'upgrade' }, value: counters.upgrades },
+  { labels: { result: 'miss' }, value: counters.misses }
+]);
+
+createCollected('inkline_cache_hit_ratio', 'Share of analysis cache lookups served from the cache since start', 'gauge', () => [
+  { labels: {}, value: getCacheStatus().hitRate }
+]);
+
+// Check if the Redis tier is available
 export function isCacheAvailable(): boolean {
   return redis !== null && redis.status === 'ready';
 }
 
+// Shared Redis client for other persistent stores — null unless connected
+export function getRedisClient(): Redis | null {
+  return isCacheAvailable() ? redis : null;
+}
+
 // Close Redis connection
 export async function closeCache(): Promise<void> {
   if (redis) {
@@ -0,0 +1,187 @@
+// Inkline - Atomic Claim Extraction
+// Splits a post into individually checkable claims, searches each one on its own,
+// and turns the model's per-claim verdicts into ClaimResults linked to counterSources
+
+import { getTextProvider } from './llm';
+import { searchTopic, buildSearchQuery, SearchResult } from './search';
+import { languageName, truncateText } from './language';
+import { ClaimResult, ClaimStatus, CounterSource } from './types';
+import { log } from './logger';
+
+// Each claim costs one search call, so keep both numbers small
+const MAX_CLAIMS = 3;
+const RESULTS_PER_CLAIM = 3;
+
+// A claim as extracted, plus its translation into the reader's language when the post is in another
+export interface ClaimQuery {
+  text: string;
+  translation?: string;
+}
+
+export interface ExtractedClaim {
+  text: string;
+  resultIndices: number[];     // indices into the merged search results
+}
+
+const CLAIM_SYSTEM_PROMPT = `You extract checkable factual claims from social media posts for Inkline, a media literacy tool.
+
+Rules:
+- A claim is a statement of fact that news reporting could confirm or dispute (events, numbers, quotes, who did what).
+- Skip opinions, predictions, jokes, questions and calls to action.
+- Each claim must stand alone: resolve pronouns and keep names, places and figures from the post.
+- Stay close to the post's own wording. Do not add facts that are not in the post.
+- Write each claim in the language of the post.
+- Return at most ${MAX_CLAIMS} claims, most important first. Return an empty array if there are none.
+
+Respond with JSON only: { "claims": ["claim one", "claim two"] }`;
+
+// Appended when the reader's language differs from the post's, so each claim can also be searched in it
+const TRANSLATE_INSTRUCTION = `Also translate each claim into {{LANGUAGE}} so it can be searched in that language too.
+Respond with JSON only: { "claims": [{ "claim": "claim in the post's language", "translation": "claim in {{LANGUAGE}}" }] }`;
+
+/**
+ * Split post text into individual checkable claims, each translated into `translateTo` if given
+ * Returns an empty array if there are none or extraction fails
+ */
+export async function extractClaims(text: string, author: string = 'Unknown', translateTo?: string): Promise<ClaimQuery[]> {
+  try {
+    const translate = translateTo ? `\n\n${TRANSLATE_INSTRUCTION.split('{{LANGUAGE}}').join(languageName(translateTo))}` : '';
+    const content = await getTextProvider().complete({
+      purpose: 'claims',
+      messages: [
+        { role: 'system', content: CLAIM_SYSTEM_PROMPT + translate },
+        { role: 'user', content: `Author: ${author}\nPost: ${truncateText(text, 1000)}` }
+      ],
+      maxTokens: 300,
+      json: true
+    });
+
+    let cleanJson = content.trim();
+    const jsonMatch = cleanJson.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    if (jsonMatch) cleanJson = jsonMatch[1];
+
+    const parsed = JSON.parse(cleanJson);
+    if (!Array.isArray(parsed.claims)) return [];
+
+    // Plain strings, or { claim, translation } objects when a translation was asked for
+    const claims = (parsed.claims as unknown[])
+      .map((c): ClaimQuery | null => {
+        if (typeof c === 'string') return { text: c.trim() };
+        if (!c || typeof c !== 'object') return null;
+        const { claim, translation } = c as { claim?: unknown; translation?: unknown };
+        if (typeof claim !== 'string') return null;
+        return typeof translation === 'string' && translation.trim().length > 0
+          ? { text: claim.trim(), translation: translation.trim() }
+          : { text: claim.trim() };
+      })
+      .filter((c): c is ClaimQuery => c !== null && c.text.length > 10)
+      .slice(0, MAX_CLAIMS);
+
+    log.info('Claims extracted', { claims: claims.length });
+    return claims;
+  } catch (error) {
+    log.error('Claim extraction error', { error });
+    return [];
+  }
+}
+
+/**
+ * Run one search per claim and merge the results, de-duplicated by URL.
+ * A claim with a translation is searched in both languages, splitting its result budget,
+ * so counter-sources are not limited to the post's language.
+ */
+export async function searchClaims(
+  claims: ClaimQuery[],
+  author: string = '',
+  postLanguage?: string,
+  locale?: string
+): Promise<{ results: SearchResult[]; claims: ExtractedClaim[] }> {
+  const perClaim = await Promise.all(
+    claims.map(async (claim) => {
+      if (!claim.translation) {
+        return searchTopic(buildSearchQuery(claim.text, author), RESULTS_PER_CLAIM, postLanguage);
+      }
+      const perLanguage = Math.ceil(RESULTS_PER_CLAIM / 2);
+      const [original, translated] = await Promise.all([
+        searchTopic(buildSearchQuery(claim.text, author), perLanguage, postLanguage),
+        searchTopic(buildSearchQuery(claim.translation, author), perLanguage, locale)
+      ]);
+      return [...original, ...translated];
+    })
+  );
+
+  const results: SearchResult[] = [];
+  const indexByUrl = new Map<string, number>();
+
+  const extracted = claims.map(({ text }, i) => {
+    const resultIndices: number[] = [];
+    for (const r of perClaim[i]) {
+      let index = indexByUrl.get(r.url);
+      if (index === undefined) {
+        index = results.length;
+        indexByUrl.set(r.url, index);
+        results.push(r);
+      }
+      if (!resultIndices.includes(index)) resultIndices.push(index);
+    }
+    return { text, resultIndices };
+  });
+
+  return { results, claims: extracted };
+}
+
+/**
+ * Prompt section listing the claims and which articles were found for each
+ */
+export function buildClaimContext(claims: ExtractedClaim[]): string {
+  if (claims.length === 0) return '';
+
+  let context = '\n--- CHECKABLE CLAIMS ---';
+  context += '\nThe post was split into these claims. Each was searched separately; the article numbers refer to the web search results above.';
+  claims.forEach((c, i) => {
+    const found = c.resultIndices.length > 0 ? c.resultIndices.map(r => `[${r}]`).join(', ') : 'none';
+    context += `\n\nClaim ${i}: "${c.text}"\n    Articles found: ${found}`;
+  });
+  context += '\n--- END CLAIMS ---';
+  context += '\n\nFor each claim, return a verdict in "claimVerdicts".';
+  return context;
+}
+
+const VALID_STATUSES: ClaimStatus[] = ['corroborated', 'contested', 'no-coverage'];
+
+/**
+ * Combine extracted claims with the model's verdicts.
+ * Sources are linked by URL to the final counterSources, so only articles the
+ * model judged relevant are linked. A claim with no linked source is always
+ * "no-coverage"; a missing verdict is derived from the linked sources' stances.
+ */
+export function buildClaimResults(
+  claims: ExtractedClaim[],
+  verdicts: unknown,
+  searchResults: SearchResult[],
+  counterSources: CounterSource[]
+): ClaimResult[] {
+  const verdictList = Array.isArray(verdicts) ? verdicts as Array<{ index?: unknown; status?: unknown; note?: unknown }> : [];
+
+  return claims.map((claim, i) => {
+    const sourceIndices = claim.resultIndices
+      .map(r => counterSources.findIndex(s => s.url === searchResults[r]?.url))
+      .filter(s => s >= 0);
+
+    const verdict = verdictList.find(v => v && v.index === i);
+    let status: ClaimStatus;
+    if (sourceIndices.length === 0) {
+      status = 'no-coverage';
+    } else if (verdict && VALID_STATUSES.includes(verdict.status as ClaimStatus)) {
+      status = verdict.status as ClaimStatus;
+    } else {
+      status = sourceIndices.some(s => counterSources[s].stance === 'counter') ? 'contested' : 'corroborated';
+    }
+
+    const result: ClaimResult = { text: claim.text, status, sourceIndices };
+    if (verdict && typeof verdict.note === 'string' && verdict.note.length > 0) {
+      result.note = verdict.note;
+    }
+    return result;
+  });
+}
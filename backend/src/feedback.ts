@@ -0,0 +1,98 @@
+// Inkline - Reader Feedback
+// Stores "this rating seems wrong" reports from the panel: which dimension, what the
+// reader thinks it should be and why. Summaries show where readers push back most,
+// to guide prompt tuning and surface systematic bias complaints.
+
+import crypto from 'crypto';
+import { getCollection } from './store';
+import { normalizeHandle, postHash } from './authors';
+import { FeedbackDimension, FeedbackEntry, FeedbackRequest, FeedbackSummary, Rating } from './types';
+import { log } from './logger';
+
+const feedback = getCollection<FeedbackEntry>('feedback');
+
+const FEEDBACK_DIMENSIONS: FeedbackDimension[] = ['overall', 'perspective', 'verification', 'balance', 'source', 'tone'];
+const RATINGS: Rating[] = ['green', 'amber', 'red'];
+const RATING_SCORE: Record<Rating, number> = { green: 0, amber: 1, red: 2 };
+
+const MAX_NOTE_LENGTH = 1000;
+
+/**
+ * Check a feedback body. Returns an error message, or null if valid.
+ */
+export function validateFeedback(body: unknown): string | null {
+  if (!body || typeof body !== 'object') return 'Body must be a JSON object';
+  const f = body as Record<string, unknown>;
+
+  if (typeof f.text !== 'string' || f.text.length === 0) return 'Missing or invalid "text" field';
+  if (!FEEDBACK_DIMENSIONS.includes(f.dimension as FeedbackDimension)) {
+    return `"dimension" must be one of: ${FEEDBACK_DIMENSIONS.join(', ')}`;
+  }
+  if (!RATINGS.includes(f.suggestedRating as Rating)) return '"suggestedRating" must be green, amber or red';
+  if (f.currentRating !== undefined && !RATINGS.includes(f.currentRating as Rating)) {
+    return '"currentRating" must be green, amber or red';
+  }
+  if (f.note !== undefined && typeof f.note !== 'string') return '"note" must be a string';
+  if (typeof f.note === 'string' && f.note.length > MAX_NOTE_LENGTH) return `"note" is too long (max ${MAX_NOTE_LENGTH} characters)`;
+  if (f.author !== undefined && typeof f.author !== 'string') return '"author" must be a string';
+  return null;
+}
+
+/**
+ * Store a feedback report. `body` must already have passed validateFeedback.
+ */
+export async function recordFeedback(body: FeedbackRequest): Promise<FeedbackEntry> {
+  const author = body.author ? normalizeHandle(body.author) : '';
+  const entry: FeedbackEntry = {
+    id: crypto.randomUUID(),
+    postHash: postHash(body.text),
+    ...(author && author !== 'unknown' ? { author } : {}),
+    dimension: body.dimension,
+    ...(body.currentRating ? { currentRating: body.currentRating } : {}),
+    suggestedRating: body.suggestedRating,
+    note: (body.note || '').trim(),
+    createdAt: new Date().toISOString()
+  };
+  await feedback.set(entry.id, entry);
+  log.info('Feedback', { dimension: entry.dimension, currentRating: entry.currentRating, suggestedRating: entry.suggestedRating });
+  return entry;
+}
+
+/**
+ * List feedback, newest first, optionally filtered by dimension and author
+ */
+export async function listFeedback(filter: { dimension?: FeedbackDimension; author?: string } = {}): Promise<FeedbackEntry[]> {
+  const author = filter.author ? normalizeHandle(filter.author) : '';
+  const all = await feedback.list();
+  return all
+    .filter(e => !filter.dimension || e.dimension === filter.dimension)
+    .filter(e => !author || e.author === author)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function isFeedbackDimension(value: unknown): value is FeedbackDimension {
+  return FEEDBACK_DIMENSIONS.includes(value as FeedbackDimension);
+}
+
+/**
+ * Per-dimension counts, and whether readers think each rating was too harsh or too lenient
+ */
+export function summarizeFeedback(entries: FeedbackEntry[]): FeedbackSummary {
+  const byDimension = {} as FeedbackSummary['byDimension'];
+  for (const dim of FEEDBACK_DIMENSIONS) {
+    byDimension[dim] = { count: 0, suggested: { green: 0, amber: 0, red: 0 }, tooHarsh: 0, tooLenient: 0 };
+  }
+
+  for (const e of entries) {
+    const d = byDimension[e.dimension];
+    d.count++;
+    d.suggested[e.suggestedRating]++;
+    if (e.currentRating) {
+      const delta = RATING_SCORE[e.suggestedRating] - RATING_SCORE[e.currentRating];
+      if (delta < 0) d.tooHarsh++;
+      if (delta > 0) d.tooLenient++;
+    }
+  }
+
+  return { total: entries.length, byDimension };
+}
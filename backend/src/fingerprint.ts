@@ -0,0 +1,89 @@
+// Inkline - Near-Duplicate Fingerprints
+// The same viral claim circulates as retweets, copy-pastes with different links and
+// lightly edited variants. Posts are normalized (links, mentions, emoji, punctuation
+// and spacing removed) and fingerprinted with a 64-bit simhash; fingerprints a few
+// bits apart mark near-identical posts, so a stored analysis can be reused.
+
+import crypto from 'crypto';
+
+// Fingerprints at most this many bits apart count as near-identical
+export const NEAR_DUPLICATE_MAX_DISTANCE = 4;
+
+// Shorter posts change meaning with a single word, so they are only matched exactly
+const MIN_TOKENS = 8;
+
+// Words per shingle. Pairs keep some word order; on posts this short, longer
+// shingles let a single inserted word move the fingerprint too far
+const SHINGLE_SIZE = 2;
+
+// The fingerprint is split into bands for indexing. With more bands than
+// NEAR_DUPLICATE_MAX_DISTANCE, two near-identical fingerprints share at least one band.
+export const FINGERPRINT_BANDS = 8;
+const BAND_HEX = 16 / FINGERPRINT_BANDS;
+
+/**
+ * Reduce a post to the words that carry its claim: no links, mentions, retweet
+ * prefix, emoji, punctuation or case differences
+ */
+export function normalizePostText(text: string): string {
+  return text
+    .replace(/^RT @[\w]+:\s*/i, '')
+    .replace(/https?:\/\/\S+|www\.\S+/gi, ' ')
+    .replace(/@[\p{L}\p{N}_]+/gu, ' ')
+    .replace(/\p{Extended_Pictographic}|[\u200d\ufe0f]|[\u{1f3fb}-\u{1f3ff}]/gu, ' ')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function featureHash(feature: string): bigint {
+  return crypto.createHash('md5').update(feature).digest().readBigUInt64BE(0);
+}
+
+/**
+ * 64-bit simhash of the normalized post, as 16 hex characters.
+ * Null when the post is too short to match on anything but its exact text.
+ */
+export function fingerprint(text: string): string | null {
+  const tokens = normalizePostText(text).split(' ').filter(Boolean);
+  if (tokens.length < MIN_TOKENS) return null;
+
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const hash = featureHash(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & BigInt(1) ? 1 : -1;
+    }
+  }
+
+  let result = BigInt(0);
+  weights.forEach((weight, bit) => {
+    if (weight > 0) result |= BigInt(1) << BigInt(bit);
+  });
+  return result.toString(16).padStart(16, '0');
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > BigInt(0)) {
+    count += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return count;
+}
+
+/**
+ * 0-1, where 1 means identical fingerprints
+ */
+export function similarity(a: string, b: string): number {
+  return Math.round((1 - hammingDistance(a, b) / 64) * 100) / 100;
+}
+
+/**
+ * The fingerprint's bands, for indexing ("<band index>:<hex>")
+ */
+export function fingerprintBands(print: string): string[] {
+  return Array.from({ length: FINGERPRINT_BANDS }, (_, i) => `${i}:${print.substring(i * BAND_HEX, (i + 1) * BAND_HEX)}`);
+}
@@ -4,12 +4,35 @@ import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
+import crypto from 'crypto';
 
-import { analyzePost, quickScan } from './analyze';
-import { initCache, getCachedAnalysis, cacheAnalysis, isCacheAvailable } from './cache';
+import { log, runWithRequestId, currentRequestId } from './logger';
+import {
+  analyzePost, analysisVersion, describeInputs, enrichWithComments, quickScan, quickScanBatch, openCircuitStages, AnalysisEventHandler, PipelineSkips
+} from './analyze';
+import { initCache, lookupAnalysis, peekAnalysis, cacheAnalysis, getCacheStatus } from './cache';
+import { createSingleFlight } from './singleflight';
+import { issueInstallToken, verifyInstallToken, getQuota, reserveQuota, refundQuota, QuotaReservation } from './installs';
+import { runWithUsage, setUsageTier, recordRequest, getUsageReport } from './usage';
+import { getBudgetStatus, currentDegradations } from './budget';
+import { createCollected, renderMetrics, requestsTotal, METRICS_CONTENT_TYPE } from './metrics';
+import { getBreakerStatus } from './resilience';
+import { resolveLocale } from './language';
 import { isVisionAvailable } from './vision';
-import { isSearchAvailable } from './search';
-import { AnalyzeRequest, AnalyzeResponse } from './types';
+import { getTextProvider, getVisionProvider } from './llm';
+import { isSearchAvailable, getSearchProviderName } from './search';
+import { openEventStream, writeEvent } from './stream';
+import {
+  listReputation, getReputation, putReputation, deleteReputation, addTrackRecordEvent,
+  validateReputationEntry, validateTrackRecordEvent
+} from './reputation';
+import { recordQuickRating, recordDeepRating, getAuthorProfile } from './authors';
+import { validateFeedback, recordFeedback, listFeedback, summarizeFeedback, isFeedbackDimension } from './feedback';
+import {
+  AnalysisResult, AnalysisStreamEvent, AnalyzeRequest, AnalyzeResponse, BatchAnalyzeRequest, BatchAnalyzeResponse,
+  AuthorResponse, Degradation, FeedbackRequest, FeedbackResponse, InstallResponse, QuickResult, QuickScanItem, QuotaStatus,
+  QuotaTier, ReputationEntry, ReputationResponse, SkippedStage, TrackRecordEvent, UsageResponse
+} from './types';
 
 // Load environment variables
 dotenv.config();
@@ -18,6 +41,33 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Request ids — taken from a valid incoming X-Request-Id or generated, returned in
+// the X-Request-Id header, on every log line and in error bodies, so a reported
+// failure can be traced through all pipeline stages
+const REQUEST_ID_PATTERN = /^[\w-]{8,64}$/;
+
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.headers['x-request-id'];
+  const requestId = typeof incoming === 'string' && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => json(
+    body && typeof body === 'object' && (body as { success?: boolean }).success === false
+      ? { ...body, requestId }
+      : body
+  );
+
+  const started = Date.now();
+  res.on('finish', () => {
+    runWithRequestId(requestId, () => log.info('Request', {
+      method: req.method, path: req.originalUrl.split('?')[0], status: res.statusCode, durationMs: Date.now() - started
+    }));
+  });
+
+  runWithRequestId(requestId, next);
+});
+
 // Middleware
 app.use(cors({
   origin: (origin, callback) => {
@@ -37,10 +87,20 @@ app.use(cors({
     // Block everything else
     callback(new Error('Not allowed by CORS'));
   },
-  methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type']
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
+  exposedHeaders: ['X-Quota-Quick-Remaining', 'X-Quota-Deep-Remaining', 'X-Quota-Reset', 'X-Request-Id']
 }));
 
+// Max posts accepted in one batch request, and the most text one post may carry
+const BATCH_MAX_ITEMS = 25;
+const MAX_TEXT_LENGTH = 5000;
+
+// Batch requests carry a page of posts, so they get a larger body limit: room for
+// a full batch of maximum-length posts in 3-byte UTF-8, plus ids and authors.
+// Registered first: the general parser below skips bodies already parsed.
+const BATCH_BODY_LIMIT_KB = Math.ceil(BATCH_MAX_ITEMS * (MAX_TEXT_LENGTH * 3 + 1024) / 1024);
+app.use('/api/analyze/batch', express.json({ limit: `${BATCH_BODY_LIMIT_KB}kb` }));
 app.use(express.json({ limit: '10kb' }));
 
 // Rate limiting - 100 requests per minute per IP
@@ -54,127 +114,540 @@ const limiter = rateLimit({
 
 app.use('/api/', limiter);
 
-// Request logging middleware
-app.use((req: Request, res: Response, next: NextFunction) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-  next();
+// ============================================================
+// INSTALLS — every extension install registers for a signed token;
+// the analyze routes require it and enforce per-install daily quotas
+// ============================================================
+
+// Registration is cheap to call, so it gets a much tighter per-IP limit
+const installLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  message: { success: false, error: 'Too many registrations, please try again later' },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+app.post('/api/install', installLimiter, async (req: Request, res: Response) => {
+  try {
+    const { installId, token } = issueInstallToken();
+    log.info('Install registered', { installId });
+    const response: InstallResponse = { success: true, installId, token, quota: await getQuota(installId) };
+    res.status(201).json(response);
+  } catch (error) {
+    log.error('Install API error', { error });
+    const response: InstallResponse = { success: false, error: 'Internal server error' };
+    res.status(500).json(response);
+  }
 });
 
+function requireInstall(req: Request, res: Response, next: NextFunction): void {
+  const header = req.headers.authorization || '';
+  const installId = verifyInstallToken(header.startsWith('Bearer ') ? header.slice(7) : '');
+  if (!installId) {
+    res.status(401).json({ success: false, error: 'Missing or invalid install token' });
+    return;
+  }
+  res.locals.installId = installId;
+  // Model and search calls made while handling the request are attributed to the install
+  runWithUsage({ installId, tier: 'other' }, next);
+}
+
+function setQuotaHeaders(res: Response, quota: QuotaStatus): void {
+  res.setHeader('X-Quota-Quick-Remaining', String(quota.quick.remaining));
+  res.setHeader('X-Quota-Deep-Remaining', String(quota.deep.remaining));
+  res.setHeader('X-Quota-Reset', quota.resetsAt);
+}
+
+// Count up to `amount` uses of a tier against the install's quota and set the
+// remaining-quota headers. `granted` is how many fitted in what is left today.
+async function takeQuota(res: Response, tier: QuotaTier, amount: number = 1): Promise<QuotaReservation> {
+  const installId = res.locals.installId as string;
+  const reservation = await reserveQuota(installId, tier, amount);
+  setQuotaHeaders(res, await getQuota(installId));
+  if (reservation.granted > 0) {
+    setUsageTier(tier);
+    recordRequest();
+    requestsTotal.inc({ endpoint: res.req.path, tier });
+  }
+  return reservation;
+}
+
+// Give back uses taken by takeQuota that produced no result, and update the
+// headers if they have not been sent yet
+async function returnQuota(res: Response, reservation: QuotaReservation, amount: number = reservation.granted): Promise<void> {
+  if (amount <= 0) return;
+  await refundQuota(reservation, amount);
+  if (!res.headersSent) setQuotaHeaders(res, await getQuota(reservation.installId));
+}
+
+// A request that failed gives back what it took; the failure is what gets reported
+async function returnQuotaOnError(res: Response, reservation: QuotaReservation | null): Promise<void> {
+  if (!reservation) return;
+  try {
+    await returnQuota(res, reservation);
+  } catch (error) {
+    log.error('Quota refund error', { error });
+  }
+}
+
+const QUOTA_EXCEEDED: Record<QuotaTier, string> = {
+  quick: 'Daily quick-scan limit reached',
+  deep: 'Daily deep-analysis limit reached'
+};
+
+const BUDGET_EXHAUSTED = 'Analysis is paused to stay within budget; only previously analyzed posts are available';
+
+// Quick scans are only affected once nothing but the cache is left
+function degradationsFor(depth: 'quick' | 'deep', degraded: Degradation[]): Degradation[] {
+  return depth === 'deep' ? degraded : degraded.filter(d => d === 'cache-only');
+}
+
+function quickResultOf(analysis: AnalysisResult): QuickResult {
+  return {
+    overall: analysis.overall,
+    summary: analysis.summary.substring(0, 80),
+    confidence: analysis.confidence
+  };
+}
+
+app.use('/api/analyze', requireInstall);
+
 // Health check endpoint
-app.get('/health', (req: Request, res: Response) => {
-  res.json({
+app.get('/health', async (req: Request, res: Response) => {
+  try {
+    res.json(await healthReport());
+  } catch (error) {
+    log.error('Health check error', { error });
+    res.status(503).json({
+      status: 'degraded',
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+async function healthReport() {
+  return {
     status: 'ok',
-    cache: isCacheAvailable() ? 'connected' : 'disconnected',
-    vision: isVisionAvailable() ? 'enabled (Qwen VL)' : 'disabled (no QWEN_API_KEY)',
-    search: isSearchAvailable() ? 'enabled (Tavily)' : 'disabled (no TAVILY_API_KEY)',
+    cache: getCacheStatus(),
+    llm: `${getTextProvider().name} (${getTextProvider().model})`,
+    vision: isVisionAvailable()
+      ? `enabled (${getVisionProvider().name}: ${getVisionProvider().model})`
+      : `disabled (${getVisionProvider().name} not configured)`,
+    search: isSearchAvailable()
+      ? `enabled (${getSearchProviderName()})`
+      : `disabled (${getSearchProviderName()} not configured)`,
+    budget: await getBudgetStatus(),
+    breakers: getBreakerStatus(),
     timestamp: new Date().toISOString()
-  });
+  };
+}
+
+// Prometheus scrape endpoint; set METRICS_TOKEN to require "Authorization: Bearer <token>"
+app.get('/metrics', (req: Request, res: Response) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    res.status(401).type('text/plain').send('Unauthorized\n');
+    return;
+  }
+  res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
 });
 
+// Returns an error message for unusable post text, or null if it can be analyzed
+function validateText(text: unknown): string | null {
+  if (!text || typeof text !== 'string') return 'Missing or invalid "text" field';
+  if (text.length < 10) return 'Text too short to analyze';
+  if (text.length > MAX_TEXT_LENGTH) return `Text too long (max ${MAX_TEXT_LENGTH} characters)`;
+  return null;
+}
+
+// Only string links are passed on; articles.ts caps how many are fetched
+function linkUrlsOf(linkUrls: unknown): string[] {
+  return Array.isArray(linkUrls) ? linkUrls.filter((u): u is string => typeof u === 'string') : [];
+}
+
+// Concurrent deep analyses of the same post with the same inputs share one run
+const deepFlights = createSingleFlight<AnalysisResult, AnalysisStreamEvent>('deep analysis');
+
+createCollected('inkline_deep_analyses_in_flight', 'Deep analyses running on this instance', 'gauge', () => [
+  { labels: {}, value: deepFlights.inFlight() }
+]);
+
+// Stages of this request left out because their breaker is open. Vision only counts
+// for posts with visuals; with the text model down nothing else is worth running.
+function skippedStagesFor(body: AnalyzeRequest): SkippedStage[] {
+  const open = openCircuitStages();
+  if (open.includes('analysis')) return ['analysis'];
+  const hasVisuals = (body.imageUrls || []).length > 0 || !!body.videoThumbnailUrl;
+  return open.filter(stage => stage !== 'vision' || hasVisuals);
+}
+
+// Deep analysis with caching: serve a cached analysis that covers the request,
+// add comment analysis to one that only lacks comments, otherwise run the pipeline.
+// Stages skipped for the budget or an open breaker are not required of a cached
+// analysis either.
+async function runDeepAnalysis(
+  body: AnalyzeRequest,
+  locale: string,
+  degraded: Degradation[],
+  onEvent?: AnalysisEventHandler
+): Promise<{ analysis: AnalysisResult; cached: boolean; skippedStages: SkippedStage[] }> {
+  const { text, author, hasVideo, videoDescription, videoThumbnailUrl, imageUrls, comments, linkUrls, language } = body;
+  const links = linkUrlsOf(linkUrls);
+  const version = analysisVersion();
+  const skippedStages = skippedStagesFor(body);
+  const textDown = skippedStages.includes('analysis');
+  const skip: PipelineSkips = {
+    vision: degraded.includes('skip-vision') ? 'budget'
+      : textDown || skippedStages.includes('vision') ? 'circuit-open' : undefined,
+    search: degraded.includes('skip-search') ? 'budget'
+      : textDown || skippedStages.includes('search') ? 'circuit-open' : undefined
+  };
+  const inputs = describeInputs(comments || [], imageUrls || [], hasVideo || false, links, skip);
+  const need = { depth: 'deep' as const, inputs, version };
+
+  const cached = await lookupAnalysis(text, locale, need);
+  if (cached?.usable) return { analysis: cached.analysis, cached: true, skippedStages: [] };
+
+  const flightKey = crypto.createHash('sha256')
+    .update(JSON.stringify([text, locale, inputs, version]))
+    .digest('hex')
+    .substring(0, 16);
+
+  const { value: analysis, shared } = await deepFlights.run(flightKey, async emit => {
+    if (cached && cached.missing.length === 1 && cached.missing[0] === 'comments') {
+      log.info('Tier 2: adding comment analysis to cached result');
+      const enriched = await enrichWithComments(text, author || 'Unknown', cached.analysis, comments || [], locale);
+      if (enriched !== cached.analysis) await cacheAnalysis(text, enriched, locale, version);
+      return enriched;
+    }
+
+    log.info('Tier 2: deep analysis', { streaming: !!onEvent });
+    const result = await analyzePost(
+      text,
+      author || 'Unknown',
+      hasVideo || false,
+      videoDescription || '',
+      videoThumbnailUrl || '',
+      imageUrls || [],
+      comments || [],
+      links,
+      locale,
+      typeof language === 'string' ? language : undefined,
+      // Stage events only when the request that started the run streams; streaming
+      // requests that join a one-shot run receive just the final result
+      onEvent ? emit : undefined,
+      skip
+    );
+
+    // The generic fallback (text model down, timed out or unparseable) is not worth
+    // caching or counting against the author
+    if (textDown || result.provenance?.fallback) return result;
+    await cacheAnalysis(text, result, locale, version);
+    recordDeepRating(author || 'Unknown', text, result);   // fire-and-forget, never throws
+    return result;
+  }, {
+    onEvent,
+    awaitRemote: () => peekAnalysis(text, locale, need)
+  });
+
+  // A run started by another request: mark where this one's copy came from
+  const served = shared && analysis.provenance && !analysis.provenance.cache
+    ? { ...analysis, provenance: { ...analysis.provenance, cache: { origin: 'in-flight' as const } } }
+    : analysis;
+  return { analysis: served, cached: shared, skippedStages };
+}
+
+// Quick scans, and deep requests the budget no longer runs in full. Under
+// cache-only, whatever is cached is served in the depth asked for.
+async function respondQuick(
+  res: Response,
+  body: AnalyzeRequest,
+  locale: string,
+  requestedDepth: 'quick' | 'deep',
+  degraded: Degradation[],
+  reservation: QuotaReservation
+): Promise<void> {
+  const { text, author } = body;
+  const applied = degraded.length > 0 ? { degraded } : {};
+
+  // Check cache for a full analysis first (if we already have deep data, use it)
+  const cached = await lookupAnalysis(text, locale, { depth: 'quick' });
+  if (cached?.usable) {
+    const response: AnalyzeResponse = {
+      success: true,
+      ...(requestedDepth === 'deep' && degraded.includes('cache-only')
+        ? { analysis: cached.analysis }
+        : { quickResult: quickResultOf(cached.analysis) }),
+      cached: true,
+      ...applied
+    };
+    res.json(response);
+    return;
+  }
+
+  if (degraded.includes('cache-only')) {
+    // Nothing is served, so the quick scan counted for this request is given back
+    await returnQuota(res, reservation);
+    const response: AnalyzeResponse = { success: false, error: BUDGET_EXHAUSTED, ...applied };
+    res.status(503).json(response);
+    return;
+  }
+
+  // With the text model's breaker open the scan returns the fallback at once
+  const textDown = openCircuitStages().includes('analysis');
+  log.info('Tier 1: quick scan', { requestedDepth });
+  const quickResult = await quickScan(text, author || 'Unknown', locale);
+  if (!textDown) recordQuickRating(author || 'Unknown', text, quickResult);   // fire-and-forget, never throws
+  const response: AnalyzeResponse = {
+    success: true,
+    quickResult,
+    cached: false,
+    ...applied,
+    ...(textDown ? { skippedStages: ['analysis'] } : {})
+  };
+  res.json(response);
+}
+
 // Main analysis endpoint
 app.post('/api/analyze', async (req: Request, res: Response) => {
+  let reservation: QuotaReservation | null = null;
   try {
-    const { text, author, hasVideo, videoDescription, videoThumbnailUrl, imageUrls, comments, depth } = req.body as AnalyzeRequest;
+    const { text, depth } = req.body as AnalyzeRequest;
+    const locale = resolveLocale((req.body as AnalyzeRequest).locale);
     
     // Validate input
-    if (!text || typeof text !== 'string') {
+    const invalid = validateText(text);
+    if (invalid) {
       const response: AnalyzeResponse = {
         success: false,
-        error: 'Missing or invalid "text" field'
+        error: invalid
       };
       res.status(400).json(response);
       return;
     }
-    
-    if (text.length < 10) {
+
+    const requestedDepth = depth || 'deep'; // default to deep for backward compat
+    const degraded = degradationsFor(requestedDepth, await currentDegradations());
+    const applied = degraded.length > 0 ? { degraded } : {};
+    const analysisDepth = degraded.includes('quick-only') ? 'quick' : requestedDepth;
+
+    // Counted against the tier that actually runs
+    const tier: QuotaTier = analysisDepth === 'quick' ? 'quick' : 'deep';
+    reservation = await takeQuota(res, tier);
+    if (reservation.granted === 0) {
       const response: AnalyzeResponse = {
         success: false,
-        error: 'Text too short to analyze'
+        error: QUOTA_EXCEEDED[tier]
       };
-      res.status(400).json(response);
+      res.status(429).json(response);
       return;
     }
-    
-    if (text.length > 5000) {
-      const response: AnalyzeResponse = {
-        success: false,
-        error: 'Text too long (max 5000 characters)'
-      };
-      res.status(400).json(response);
+
+    // === TIER 1: Quick scan — just traffic light ===
+    if (analysisDepth === 'quick') {
+      await respondQuick(res, req.body as AnalyzeRequest, locale, requestedDepth, degraded, reservation);
       return;
     }
 
-    const analysisDepth = depth || 'deep'; // default to deep for backward compat
+    // === TIER 2: Deep analysis — full pipeline ===
+    const { analysis, cached, skippedStages } = await runDeepAnalysis(req.body as AnalyzeRequest, locale, degraded);
+    
+    const response: AnalyzeResponse = {
+      success: true,
+      analysis,
+      cached,
+      ...applied,
+      ...(skippedStages.length > 0 ? { skippedStages } : {})
+    };
+    
+    res.json(response);
+  } catch (error) {
+    log.error('API error', { error });
+    if (!res.headersSent) await returnQuotaOnError(res, reservation);
+
+    const response: AnalyzeResponse = {
+      success: false,
+      error: 'Internal server error'
+    };
+    res.status(500).json(response);
+  }
+});
 
-    // === TIER 1: Quick scan — just traffic light ===
-    if (analysisDepth === 'quick') {
-      // Check cache for a full analysis first (if we already have deep data, use it)
-      const cached = await getCachedAnalysis(text);
-      if (cached) {
+// Streaming deep analysis — Server-Sent Events, one event per finished stage:
+// search → vision → dimensions → summary → counterPerspective → complete
+app.post('/api/analyze/stream', async (req: Request, res: Response) => {
+  const { text } = req.body as AnalyzeRequest;
+  const locale = resolveLocale((req.body as AnalyzeRequest).locale);
+
+  const invalid = validateText(text);
+  if (invalid) {
+    const response: AnalyzeResponse = {
+      success: false,
+      error: invalid
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  let degraded: Degradation[];
+  let reservation: QuotaReservation | null = null;
+  try {
+    degraded = await currentDegradations();
+
+    // No deep run to stream: answered with a plain JSON response, as /api/analyze would
+    if (degraded.includes('quick-only')) {
+      reservation = await takeQuota(res, 'quick');
+      if (reservation.granted === 0) {
         const response: AnalyzeResponse = {
-          success: true,
-          quickResult: {
-            overall: cached.overall,
-            summary: cached.summary.substring(0, 80),
-            confidence: cached.confidence
-          },
-          cached: true
+          success: false,
+          error: QUOTA_EXCEEDED.quick
         };
-        res.json(response);
+        res.status(429).json(response);
         return;
       }
+      await respondQuick(res, req.body as AnalyzeRequest, locale, 'deep', degraded, reservation);
+      return;
+    }
 
-      console.log('[Inkline] Tier 1: quick scan');
-      const quickResult = await quickScan(text, author || 'Unknown');
+    reservation = await takeQuota(res, 'deep');
+    if (reservation.granted === 0) {
       const response: AnalyzeResponse = {
-        success: true,
-        quickResult,
-        cached: false
+        success: false,
+        error: QUOTA_EXCEEDED.deep
+      };
+      res.status(429).json(response);
+      return;
+    }
+  } catch (error) {
+    log.error('Stream API error', { error });
+    if (!res.headersSent) await returnQuotaOnError(res, reservation);
+    const response: AnalyzeResponse = {
+      success: false,
+      error: 'Internal server error'
+    };
+    res.status(500).json(response);
+    return;
+  }
+
+  openEventStream(res);
+  // Stop writing if the client goes away; the pipeline still finishes and caches
+  let clientGone = false;
+  res.on('close', () => { clientGone = true; });
+  const send = (event: AnalysisStreamEvent) => {
+    if (!clientGone) writeEvent(res, event);
+  };
+
+  try {
+    const { analysis, cached, skippedStages } = await runDeepAnalysis(req.body as AnalyzeRequest, locale, degraded, send);
+    send({
+      stage: 'complete', analysis, cached,
+      ...(degraded.length > 0 ? { degraded } : {}),
+      ...(skippedStages.length > 0 ? { skippedStages } : {})
+    });
+  } catch (error) {
+    log.error('Stream API error', { error });
+    await returnQuotaOnError(res, reservation);
+    send({ stage: 'error', error: 'Internal server error', requestId: currentRequestId() });
+  }
+  res.end();
+});
+
+// Batch quick-scan endpoint — one request for a whole page of feed posts
+app.post('/api/analyze/batch', async (req: Request, res: Response) => {
+  try {
+    const { items } = req.body as BatchAnalyzeRequest;
+    const locale = resolveLocale((req.body as BatchAnalyzeRequest).locale);
+
+    if (!Array.isArray(items) || items.length === 0) {
+      const response: BatchAnalyzeResponse = {
+        success: false,
+        error: 'Missing or invalid "items" field'
       };
-      res.json(response);
+      res.status(400).json(response);
       return;
     }
 
-    // === TIER 2: Deep analysis — full pipeline ===
-    
-    // Check cache — bypass if we have comments but cache lacks comment analysis
-    const cached = await getCachedAnalysis(text);
-    const hasComments = comments && comments.length > 0;
-    if (cached && (!hasComments || cached.commentAnalysis)) {
-      const response: AnalyzeResponse = {
-        success: true,
-        analysis: cached,
-        cached: true
+    if (items.length > BATCH_MAX_ITEMS) {
+      const response: BatchAnalyzeResponse = {
+        success: false,
+        error: `Too many items (max ${BATCH_MAX_ITEMS})`
       };
-      res.json(response);
+      res.status(400).json(response);
       return;
     }
-    
-    console.log('[Inkline] Tier 2: deep analysis');
-    const analysis = await analyzePost(
-      text,
-      author || 'Unknown',
-      hasVideo || false,
-      videoDescription || '',
-      videoThumbnailUrl || '',
-      imageUrls || [],
-      comments || []
+
+    const invalid = items.find(item =>
+      !item || typeof item.id !== 'string' || !item.id ||
+      typeof item.text !== 'string' || item.text.length < 10 || item.text.length > MAX_TEXT_LENGTH
     );
-    
-    // Cache the deep result
-    await cacheAnalysis(text, analysis);
-    
-    const response: AnalyzeResponse = {
+    if (invalid) {
+      const response: BatchAnalyzeResponse = {
+        success: false,
+        error: `Each item needs an "id" and a "text" of 10-${MAX_TEXT_LENGTH} characters`
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Once the budget is exhausted, only posts with a cached analysis are assessed
+    const degraded = degradationsFor('quick', await currentDegradations());
+
+    // Every post assessed counts against the quick quota; posts past it are not assessed
+    const reservation = await takeQuota(res, 'quick', items.length);
+    const { granted } = reservation;
+    if (granted === 0) {
+      const response: BatchAnalyzeResponse = {
+        success: false,
+        error: QUOTA_EXCEEDED.quick
+      };
+      res.status(429).json(response);
+      return;
+    }
+    const allowed = items.slice(0, granted);
+    const overQuota = items.slice(granted).map(item => item.id);
+
+    // Serve anything we already have a deep analysis for, batch the rest
+    const results: Record<string, QuickResult> = {};
+    const cachedIds: string[] = [];
+    const misses: QuickScanItem[] = [];
+
+    const cachedAnalyses = await Promise.all(allowed.map(item => lookupAnalysis(item.text, locale, { depth: 'quick' })));
+    allowed.forEach((item, i) => {
+      const cached = cachedAnalyses[i];
+      if (cached?.usable) {
+        results[item.id] = quickResultOf(cached.analysis);
+        cachedIds.push(item.id);
+      } else if (!degraded.includes('cache-only')) {
+        misses.push({ id: item.id, text: item.text, author: item.author || 'Unknown' });
+      }
+    });
+
+    // Under cache-only, posts without a cached analysis were not assessed
+    if (degraded.includes('cache-only')) await returnQuota(res, reservation, allowed.length - cachedIds.length);
+
+    if (misses.length > 0) {
+      log.info('Tier 1 batch', { toScan: misses.length, cached: cachedIds.length });
+      const scanned = await quickScanBatch(misses, locale);
+      for (const item of misses) {
+        recordQuickRating(item.author || 'Unknown', item.text, scanned[item.id]);   // fire-and-forget, never throws
+      }
+      Object.assign(results, scanned);
+    }
+
+    const response: BatchAnalyzeResponse = {
       success: true,
-      analysis,
-      cached: false
+      results,
+      cached: cachedIds,
+      ...(overQuota.length > 0 ? { overQuota } : {}),
+      ...(degraded.length > 0 ? { degraded } : {})
     };
-    
     res.json(response);
   } catch (error) {
-    console.error('[Inkline] API error:', error);
-    
-    const response: AnalyzeResponse = {
+    log.error('Batch API error', { error });
+
+    const response: BatchAnalyzeResponse = {
       success: false,
       error: 'Internal server error'
     };
@@ -182,6 +655,185 @@ app.post('/api/analyze', async (req: Request, res: Response) => {
   }
 });
 
+// Author history — aggregate ratings and trends for an account
+app.get('/api/authors/:handle', async (req: Request, res: Response) => {
+  try {
+    const profile = await getAuthorProfile(String(req.params.handle));
+    if (!profile) {
+      const response: AuthorResponse = { success: false, error: 'No history for this author' };
+      res.status(404).json(response);
+      return;
+    }
+    const response: AuthorResponse = { success: true, profile };
+    res.json(response);
+  } catch (error) {
+    log.error('Author history error', { error });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Reader feedback — "this rating seems wrong" for one dimension or the overall signal
+app.post('/api/feedback', async (req: Request, res: Response) => {
+  try {
+    const invalid = validateFeedback(req.body);
+    if (invalid) {
+      const response: FeedbackResponse = { success: false, error: invalid };
+      res.status(400).json(response);
+      return;
+    }
+    const entry = await recordFeedback(req.body as FeedbackRequest);
+    const response: FeedbackResponse = { success: true, id: entry.id };
+    res.status(201).json(response);
+  } catch (error) {
+    log.error('Feedback error', { error });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ============================================================
+// ADMIN API — requires ADMIN_TOKEN as a Bearer token; disabled if unset
+// ============================================================
+
+function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    res.status(404).json({ success: false, error: 'Not found' });
+    return;
+  }
+
+  const header = req.headers.authorization || '';
+  const given = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+  const expected = Buffer.from(adminToken);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    res.status(401).json({ success: false, error: 'Unauthorized' });
+    return;
+  }
+  next();
+}
+
+// Source reputation database — outlets (by domain) and accounts (by @handle)
+app.get('/api/admin/reputation', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const kind = req.query.kind === 'outlet' || req.query.kind === 'account' ? req.query.kind : undefined;
+    const response: ReputationResponse = { success: true, entries: await listReputation(kind) };
+    res.json(response);
+  } catch (error) {
+    log.error('Reputation list error', { error });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.get('/api/admin/reputation/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const entry = await getReputation(String(req.params.id));
+    if (!entry) {
+      res.status(404).json({ success: false, error: 'No reputation entry for this id' });
+      return;
+    }
+    const response: ReputationResponse = { success: true, entry };
+    res.json(response);
+  } catch (error) {
+    log.error('Reputation get error', { error });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create or replace an entry
+app.put('/api/admin/reputation/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const invalid = validateReputationEntry(req.body);
+    if (invalid) {
+      res.status(400).json({ success: false, error: invalid });
+      return;
+    }
+    const entry: ReputationEntry = await putReputation(String(req.params.id), req.body);
+    const response: ReputationResponse = { success: true, entry };
+    res.json(response);
+  } catch (error) {
+    log.error('Reputation put error', { error });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Append one event to an entry's track record
+app.post('/api/admin/reputation/:id/track-record', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const invalid = validateTrackRecordEvent(req.body);
+    if (invalid) {
+      res.status(400).json({ success: false, error: invalid });
+      return;
+    }
+    const entry = await addTrackRecordEvent(String(req.params.id), req.body as TrackRecordEvent);
+    if (!entry) {
+      res.status(404).json({ success: false, error: 'No reputation entry for this id' });
+      return;
+    }
+    const response: ReputationResponse = { success: true, entry };
+    res.json(response);
+  } catch (error) {
+    log.error('Reputation track-record error', { error });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/admin/reputation/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    if (!(await deleteReputation(String(req.params.id)))) {
+      res.status(404).json({ success: false, error: 'No reputation entry for this id' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    log.error('Reputation delete error', { error });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Reader feedback with per-dimension summary; filter with ?dimension= and ?author=
+app.get('/api/admin/feedback', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const dimension = isFeedbackDimension(req.query.dimension) ? req.query.dimension : undefined;
+    const author = typeof req.query.author === 'string' ? req.query.author : undefined;
+    const entries = await listFeedback({ dimension, author });
+    const response: FeedbackResponse = { success: true, entries, summary: summarizeFeedback(entries) };
+    res.json(response);
+  } catch (error) {
+    log.error('Feedback list error', { error });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+const USAGE_DEFAULT_DAYS = 7;
+const USAGE_MAX_DAYS = 92;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Token, search and cost totals per day, tier and model; ?from= and ?to= (YYYY-MM-DD,
+// UTC, inclusive) default to the last 7 days
+app.get('/api/admin/usage', requireAdmin, async (req: Request, res: Response) => {
+  const day = (offset: number) => new Date(Date.now() - offset * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+  const to = typeof req.query.to === 'string' ? req.query.to : day(0);
+  const from = typeof req.query.from === 'string' ? req.query.from : day(USAGE_DEFAULT_DAYS - 1);
+
+  const span = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+  if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to) || !(span >= 0 && span < USAGE_MAX_DAYS)) {
+    const response: UsageResponse = {
+      success: false,
+      error: `"from" and "to" must be YYYY-MM-DD dates, in order, at most ${USAGE_MAX_DAYS} days apart`
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  try {
+    const report = await getUsageReport(from, to);
+    const response: UsageResponse = { success: true, from, to, ...report };
+    res.json(response);
+  } catch (error) {
+    log.error('Usage report error', { error });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // 404 handler
 app.use((req: Request, res: Response) => {
   res.status(404).json({ success: false, error: 'Not found' });
@@ -189,24 +841,35 @@ app.use((req: Request, res: Response) => {
 
 // Error handler
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error('[Inkline] Unhandled error:', err);
+  log.error('Unhandled error', { error: err });
   res.status(500).json({ success: false, error: 'Internal server error' });
 });
 
 // Initialize cache and start server
 async function start(): Promise<void> {
+  // Resolve the configured providers now, so an unknown LLM_PROVIDER, VISION_PROVIDER
+  // or SEARCH_PROVIDER stops the server at startup instead of failing requests
+  getTextProvider();
+  getVisionProvider();
+  getSearchProviderName();
+
   // Initialize Redis cache
   initCache();
+
+  // Exit through process.exit, so record-store writes still pending are flushed
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) process.once(signal, () => process.exit(0));
   
   // Start server
   app.listen(PORT, () => {
-    console.log(`[Inkline] Server running on port ${PORT}`);
-    console.log(`[Inkline] Health check: http://localhost:${PORT}/health`);
-    console.log(`[Inkline] Analyze endpoint: http://localhost:${PORT}/api/analyze`);
+    log.info('Server running', {
+      port: Number(PORT),
+      health: `http://localhost:${PORT}/health`,
+      endpoints: ['/api/analyze', '/api/analyze/stream', '/api/analyze/batch', '/api/feedback', '/api/install', '/metrics']
+    });
   });
 }
 
 start().catch((error) => {
-  console.error('[Inkline] Failed to start server:', error);
+  log.error('Failed to start server', { error });
   process.exit(1);
 });
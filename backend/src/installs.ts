@@ -0,0 +1,170 @@
+// Inkline - Install Tokens and Daily Quotas
+// Each extension install registers once and receives a signed token
+// ("v1.<installId>.<issuedAt>.<signature>", HMAC-SHA256 with INSTALL_TOKEN_SECRET).
+// The analyze routes require it and count usage per install and UTC day, with
+// separate quotas for quick scans and deep analyses. Counts live in Redis when
+// connected, otherwise in memory.
+
+import crypto from 'crypto';
+import { getRedisClient } from './cache';
+import { QuotaStatus, QuotaTier } from './types';
+import { log } from './logger';
+
+const TOKEN_VERSION = 'v1';
+
+const DEFAULT_QUOTAS: Record<QuotaTier, number> = { quick: 200, deep: 50 };
+
+let ephemeralSecret: string | null = null;
+
+function tokenSecret(): string {
+  const configured = process.env.INSTALL_TOKEN_SECRET;
+  if (configured) return configured;
+  if (!ephemeralSecret) {
+    ephemeralSecret = crypto.randomBytes(32).toString('hex');
+    log.warn('No INSTALL_TOKEN_SECRET configured, install tokens are valid until restart');
+  }
+  return ephemeralSecret;
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', tokenSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Register a new install: a random id and a token signed for it
+ */
+export function issueInstallToken(): { installId: string; token: string } {
+  const installId = crypto.randomUUID();
+  const payload = `${TOKEN_VERSION}.${installId}.${Date.now()}`;
+  return { installId, token: `${payload}.${sign(payload)}` };
+}
+
+/**
+ * The install id a token was issued for, or null if it is malformed or not signed by us
+ */
+export function verifyInstallToken(token: unknown): string | null {
+  if (typeof token !== 'string') return null;
+  const parts = token.split('.');
+  if (parts.length !== 4 || parts[0] !== TOKEN_VERSION) return null;
+
+  const given = Buffer.from(parts[3]);
+  const expected = Buffer.from(sign(parts.slice(0, 3).join('.')));
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+  return parts[1];
+}
+
+// ============================================================
+// QUOTAS — per install, per UTC day
+// ============================================================
+
+// In-memory counts when Redis is not connected: "<day>:<installId>:<tier>" → count
+const memoryCounts = new Map<string, number>();
+let memoryDay = '';
+
+function quotaLimit(tier: QuotaTier): number {
+  const value = parseInt(process.env[tier === 'quick' ? 'QUOTA_QUICK_DAILY' : 'QUOTA_DEEP_DAILY'] || '', 10);
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_QUOTAS[tier];
+}
+
+function today(): string {
+  return new Date().toISOString().substring(0, 10);
+}
+
+function nextReset(): string {
+  const reset = new Date();
+  reset.setUTCHours(24, 0, 0, 0);
+  return reset.toISOString();
+}
+
+function countKey(installId: string, tier: QuotaTier, day: string = today()): string {
+  return `ts:quota:${day}:${installId}:${tier}`;
+}
+
+async function usedToday(installId: string, tier: QuotaTier): Promise<number> {
+  const redis = getRedisClient();
+  if (redis) return parseInt(await redis.get(countKey(installId, tier)) || '0', 10);
+  return memoryCounts.get(countKey(installId, tier)) || 0;
+}
+
+/**
+ * Remaining quota for both tiers. Errors from Redis are thrown to the caller.
+ */
+export async function getQuota(installId: string): Promise<QuotaStatus> {
+  const [quickUsed, deepUsed] = await Promise.all([usedToday(installId, 'quick'), usedToday(installId, 'deep')]);
+  return {
+    quick: { limit: quotaLimit('quick'), remaining: Math.max(0, quotaLimit('quick') - quickUsed) },
+    deep: { limit: quotaLimit('deep'), remaining: Math.max(0, quotaLimit('deep') - deepUsed) },
+    resetsAt: nextReset()
+  };
+}
+
+// Counts are kept a little past the day so a request straddling midnight still finds them
+const COUNT_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+// Adds as much of ARGV[1] as fits under the limit ARGV[2] and returns what was added,
+// so concurrent requests can never take the same remaining quota twice
+const RESERVE_SCRIPT = `
+local used = tonumber(redis.call("get", KEYS[1]) or "0")
+local granted = math.max(0, math.min(tonumber(ARGV[1]), tonumber(ARGV[2]) - used))
+if granted > 0 then redis.call("incrby", KEYS[1], granted) end
+redis.call("expire", KEYS[1], ARGV[3])
+return granted`;
+
+function memoryCountsForToday(): Map<string, number> {
+  if (memoryDay !== today()) {
+    memoryCounts.clear();
+    memoryDay = today();
+  }
+  return memoryCounts;
+}
+
+// Uses counted by reserveQuota, and the day they were counted against
+export interface QuotaReservation {
+  installId: string;
+  tier: QuotaTier;
+  day: string;
+  granted: number;
+}
+
+/**
+ * Count up to `amount` uses of a tier against today's quota, in one atomic step.
+ * `granted` is how many fitted in what was left.
+ */
+export async function reserveQuota(installId: string, tier: QuotaTier, amount: number = 1): Promise<QuotaReservation> {
+  const day = today();
+  if (amount <= 0) return { installId, tier, day, granted: 0 };
+  const key = countKey(installId, tier, day);
+  const limit = quotaLimit(tier);
+
+  const redis = getRedisClient();
+  if (redis) {
+    const granted = Number(await redis.eval(RESERVE_SCRIPT, 1, key, amount, limit, COUNT_TTL_SECONDS));
+    return { installId, tier, day, granted };
+  }
+
+  const counts = memoryCountsForToday();
+  const used = counts.get(key) || 0;
+  const granted = Math.max(0, Math.min(amount, limit - used));
+  counts.set(key, used + granted);
+  return { installId, tier, day, granted };
+}
+
+/**
+ * Give back `amount` uses of a reservation that were not served (e.g. nothing was
+ * cached). They go back to the day they were counted against, even past midnight.
+ */
+export async function refundQuota(reservation: QuotaReservation, amount: number = reservation.granted): Promise<void> {
+  if (amount <= 0) return;
+  const key = countKey(reservation.installId, reservation.tier, reservation.day);
+
+  const redis = getRedisClient();
+  if (redis) {
+    await redis.decrby(key, amount);
+    return;
+  }
+
+  // Memory counts only hold today; an earlier day's are already gone
+  if (reservation.day !== today()) return;
+  const counts = memoryCountsForToday();
+  counts.set(key, Math.max(0, (counts.get(key) || 0) - amount));
+}
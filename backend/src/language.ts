@@ -0,0 +1,146 @@
+// Inkline - Language Handling
+// Detects the language a post is written in and resolves the reader's output locale,
+// so analysis text comes back in the reader's language and web search covers both
+// the post's language and the reader's.
+
+// Output language when the client sends no (or an unsupported) locale
+export const DEFAULT_LOCALE = 'en';
+
+// "Undetermined" (BCP 47) — too short or mixed to tell
+export const UNDETERMINED = 'und';
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', es: 'Spanish', fr: 'French', de: 'German', pt: 'Portuguese', it: 'Italian',
+  nl: 'Dutch', pl: 'Polish', sv: 'Swedish', tr: 'Turkish', id: 'Indonesian',
+  ru: 'Russian', uk: 'Ukrainian', el: 'Greek', ar: 'Arabic', fa: 'Persian', ur: 'Urdu', he: 'Hebrew',
+  hi: 'Hindi', bn: 'Bengali', th: 'Thai', zh: 'Chinese', ja: 'Japanese', ko: 'Korean'
+};
+
+// Non-Latin scripts, checked by share of letters
+const SCRIPTS: Array<{ pattern: RegExp; language: (text: string) => string }> = [
+  { pattern: /[\uac00-\ud7af\u1100-\u11ff]/g, language: () => 'ko' },
+  { pattern: /[\u3040-\u30ff]/g, language: () => 'ja' },
+  // Han characters: Japanese if any kana appears alongside them
+  { pattern: /[\u4e00-\u9fff]/g, language: t => /[\u3040-\u30ff]/.test(t) ? 'ja' : 'zh' },
+  { pattern: /[\u0600-\u06ff]/g, language: t => /[ٹڈڑںے]/.test(t) ? 'ur' : /[پچژگ]/.test(t) ? 'fa' : 'ar' },
+  { pattern: /[\u0590-\u05ff]/g, language: () => 'he' },
+  { pattern: /[\u0400-\u04ff]/g, language: t => /[іїєґ]/i.test(t) ? 'uk' : 'ru' },
+  { pattern: /[\u0900-\u097f]/g, language: () => 'hi' },
+  { pattern: /[\u0980-\u09ff]/g, language: () => 'bn' },
+  { pattern: /[\u0e00-\u0e7f]/g, language: () => 'th' },
+  { pattern: /[\u0370-\u03ff]/g, language: () => 'el' }
+];
+
+// Common function words for Latin-script languages, most distinctive first
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'was', 'of', 'to', 'that', 'for', 'with', 'this', 'it', 'not', 'have', 'be'],
+  es: ['el', 'los', 'las', 'y', 'que', 'es', 'por', 'con', 'para', 'una', 'del', 'al', 'se', 'no', 'lo'],
+  fr: ['le', 'les', 'des', 'et', 'est', 'une', 'du', 'pour', 'dans', 'pas', 'qui', 'sur', 'au', 'ce', 'il'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'von', 'sich', 'auf', 'für'],
+  pt: ['os', 'as', 'e', 'que', 'em', 'um', 'uma', 'é', 'não', 'para', 'com', 'do', 'da', 'por', 'se'],
+  it: ['il', 'di', 'che', 'è', 'un', 'una', 'per', 'non', 'con', 'del', 'della', 'sono', 'gli', 'le', 'la'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'niet', 'op', 'te', 'voor', 'met', 'zijn', 'ook', 'maar'],
+  pl: ['i', 'w', 'nie', 'na', 'się', 'z', 'że', 'do', 'to', 'jest', 'jak', 'ale', 'czy', 'po', 'tak'],
+  sv: ['och', 'att', 'det', 'som', 'en', 'är', 'på', 'för', 'med', 'inte', 'av', 'till', 'har', 'jag', 'om'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'ne', 'çok', 'daha', 'olarak', 'gibi', 'ama', 'değil', 'var'],
+  id: ['yang', 'dan', 'di', 'ini', 'itu', 'dengan', 'untuk', 'tidak', 'dari', 'dalam', 'akan', 'ada', 'juga', 'ke', 'saya']
+};
+
+// Latin-script posts need at least this many function-word hits to be labelled
+const MIN_STOPWORD_HITS = 2;
+
+/**
+ * Normalize a client-supplied language tag ("fr-FR", "pt_BR", "ES") to a supported
+ * two-letter code, or null if it is missing or not supported
+ */
+export function normalizeLanguage(tag: unknown): string | null {
+  if (typeof tag !== 'string') return null;
+  const primary = tag.trim().toLowerCase().split(/[-_]/)[0];
+  return primary in LANGUAGE_NAMES ? primary : null;
+}
+
+/**
+ * The reader's output language: the client's locale if supported, else English
+ */
+export function resolveLocale(locale: unknown): string {
+  return normalizeLanguage(locale) || DEFAULT_LOCALE;
+}
+
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] || 'an undetermined language';
+}
+
+/**
+ * Detect the language of a post from its script and, for Latin script, its function words
+ */
+export function detectLanguage(text: string): string {
+  const cleaned = text
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[@#][\p{L}\p{N}_]+/gu, ' ');
+
+  const letters = (cleaned.match(/\p{L}/gu) || []).length;
+  if (letters === 0) return UNDETERMINED;
+
+  // Dominant non-Latin script, if it makes up a meaningful share of the letters
+  let best: { count: number; language: string } | null = null;
+  for (const script of SCRIPTS) {
+    const count = (cleaned.match(script.pattern) || []).length;
+    if (count > 0 && (!best || count > best.count)) best = { count, language: script.language(cleaned) };
+  }
+  if (best && best.count / letters >= 0.3) return best.language;
+
+  const words = cleaned.toLowerCase().match(/\p{L}+/gu) || [];
+  let bestLatin = { hits: 0, language: UNDETERMINED };
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const hits = words.filter(w => stopwords.includes(w)).length;
+    if (hits > bestLatin.hits) bestLatin = { hits, language };
+  }
+  return bestLatin.hits >= MIN_STOPWORD_HITS ? bestLatin.language : UNDETERMINED;
+}
+
+/**
+ * The post's language: the platform's hint when it names a supported language, else detected
+ */
+export function resolvePostLanguage(text: string, hint?: unknown): string {
+  return normalizeLanguage(hint) || detectLanguage(text);
+}
+
+/**
+ * Whether search should also run in the reader's language
+ */
+export function needsBilingualSearch(postLanguage: string, locale: string): boolean {
+  return postLanguage !== UNDETERMINED && postLanguage !== locale;
+}
+
+/**
+ * Cut text to at most `max` characters without splitting a surrogate pair
+ * (emoji, rarer CJK characters), so truncated prompts stay valid text
+ */
+export function truncateText(text: string, max: number): string {
+  if (text.length <= max) return text;
+  const cut = text.substring(0, max);
+  return /[\ud800-\udbff]$/.test(cut) ? cut.substring(0, max - 1) : cut;
+}
+
+/**
+ * One-line instruction for prompts whose free text is shown to the reader
+ */
+export function outputLanguageInstruction(locale: string): string {
+  if (locale === DEFAULT_LOCALE) return '';
+  return `Write all free text in ${languageName(locale)}. Keep quotations from the post in their original language. JSON keys and rating values stay in English.`;
+}
+
+/**
+ * Prompt section for the deep analysis: what language the post is in and what to write in
+ */
+export function buildLanguageContext(postLanguage: string, locale: string): string {
+  const output = languageName(locale);
+  let context = `\n--- LANGUAGE ---\nPost language: ${languageName(postLanguage)}\nOutput language: ${output}`;
+  if (locale !== DEFAULT_LOCALE || (postLanguage !== DEFAULT_LOCALE && postLanguage !== UNDETERMINED)) {
+    context += `\nWrite every label, reason, summary, counterPerspective, claimVerdicts note, videoAnalysis and the commentAnalysis text fields in ${output}.`;
+    context += '\nKeep quotations from the post, the comments or the articles (e.g. commentAnalysis highlight "text") in their original language.';
+    context += '\nJSON keys and enum values ("green", "corroborated", "mixed", ...) stay exactly as specified.';
+  }
+  context += '\n--- END LANGUAGE ---';
+  return context;
+}
@@ -0,0 +1,334 @@
+// Inkline - LLM Provider Layer
+// Every chat completion (quick scan, deep analysis, vision) goes through an LLMProvider.
+// Providers are chosen by env config:
+//   LLM_PROVIDER    = deepseek (default) | openai-compatible | replay   — text analysis
+//   VISION_PROVIDER = qwen (default)     | openai-compatible | replay   — image/video analysis
+// The replay provider serves recorded fixtures so the full pipeline runs with no network.
+
+import OpenAI from 'openai';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { recordCompletion } from './usage';
+import { createUpstream, isCircuitOpen } from './resilience';
+import { log } from './logger';
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+// What the call is for — the replay provider keys fixtures and canned responses on it
+export type CompletionPurpose = 'quick' | 'quick-batch' | 'claims' | 'deep' | 'comments' | 'vision';
+
+export interface CompletionRequest {
+  purpose: CompletionPurpose;
+  messages: ChatMessage[];
+  maxTokens: number;
+  json?: boolean;              // ask for a JSON object response
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  isAvailable(): boolean;
+  isCircuitOpen(): boolean;    // calls are currently rejected by the provider's breaker (resilience.ts)
+  complete(request: CompletionRequest): Promise<string>;
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+// ============================================================
+// OPENAI-COMPATIBLE — DeepSeek, DashScope (Qwen) and local servers
+// (llama.cpp, vLLM, Ollama, LM Studio all speak this API)
+// ============================================================
+
+interface OpenAICompatibleConfig {
+  name: string;
+  apiKey: string;
+  baseURL: string;
+  model: string;
+  requiresKey: boolean;        // local servers usually accept any key
+  role: 'text' | 'vision';     // picks the timeout: LLM_TIMEOUT_MS or VISION_TIMEOUT_MS
+}
+
+// Per attempt; a deep analysis completion is the slowest call we make
+const DEFAULT_TIMEOUT_MS: Record<OpenAICompatibleConfig['role'], number> = { text: 45 * 1000, vision: 30 * 1000 };
+
+// Vision calls are priced separately from text calls
+const usageRole = (request: CompletionRequest): 'text' | 'vision' =>
+  request.purpose === 'vision' ? 'vision' : 'text';
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  let client: OpenAI | null = null;
+  const getClient = (): OpenAI => {
+    if (!client) {
+      // Retries and timeouts are handled by the upstream wrapper below
+      client = new OpenAI({ apiKey: config.apiKey || 'not-needed', baseURL: config.baseURL, maxRetries: 0 });
+    }
+    return client;
+  };
+
+  const timeoutEnv = config.role === 'vision' ? 'VISION_TIMEOUT_MS' : 'LLM_TIMEOUT_MS';
+  const upstream = createUpstream(`llm:${config.name}/${config.model}`, timeoutEnv, DEFAULT_TIMEOUT_MS[config.role]);
+
+  const params = (request: CompletionRequest) => ({
+    model: config.model,
+    messages: request.messages as OpenAI.Chat.ChatCompletionMessageParam[],
+    max_tokens: request.maxTokens,
+    ...(request.json ? { response_format: { type: 'json_object' as const } } : {})
+  });
+
+  return {
+    name: config.name,
+    model: config.model,
+
+    isAvailable(): boolean {
+      return !config.requiresKey || config.apiKey.length > 5;
+    },
+
+    isCircuitOpen(): boolean {
+      return isCircuitOpen(upstream.name);
+    },
+
+    async complete(request: CompletionRequest): Promise<string> {
+      const response = await upstream.call(signal => getClient().chat.completions.create(params(request), { signal }));
+      recordCompletion(usageRole(request), config.name, config.model, response.usage);
+      return response.choices[0]?.message?.content || '';
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      // Only opening the stream is retried — chunks already relayed cannot be taken back.
+      // The attempt timeout ends once the stream is open, so reading it has its own
+      // deadline, started afresh with each attempt.
+      const stream = await upstream.call(signal => {
+        const deadline = AbortSignal.timeout(upstream.timeoutMs());
+        return getClient().chat.completions.create({
+          ...params(request),
+          stream: true,
+          stream_options: { include_usage: true }     // token counts arrive on the final chunk
+        }, { signal: AbortSignal.any([signal, deadline]) });
+      });
+      let usage: OpenAI.CompletionUsage | null | undefined;
+      for await (const chunk of stream) {
+        if (chunk.usage) usage = chunk.usage;
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+      recordCompletion(usageRole(request), config.name, config.model, usage);
+    }
+  };
+}
+
+// ============================================================
+// REPLAY — deterministic, offline
+// Looks up a recorded response by a hash of the request; when none is recorded
+// it returns a fixed canned response for the purpose, so results never vary.
+// ============================================================
+
+const CANNED_RESPONSES: Record<CompletionPurpose, string> = {
+  'quick': JSON.stringify({ overall: 'amber', summary: 'Replay provider: no recorded quick scan for this post', confidence: 0.5 }),
+  'quick-batch': JSON.stringify({ results: {} }),
+  'claims': JSON.stringify({ claims: [] }),
+  'deep': JSON.stringify({
+    overall: 'amber',
+    perspective: { rating: 'amber', label: 'Replay fixture', reason: 'No recorded response for this post.' },
+    verification: { rating: 'amber', label: 'Replay fixture', reason: 'No recorded response for this post.' },
+    balance: { rating: 'amber', label: 'Replay fixture', reason: 'No recorded response for this post.' },
+    source: { rating: 'amber', label: 'Replay fixture', reason: 'No recorded response for this post.' },
+    tone: { rating: 'amber', label: 'Replay fixture', reason: 'No recorded response for this post.' },
+    summary: 'Replay provider: no recorded deep analysis for this post.',
+    confidence: 0.5,
+    counterPerspective: null,
+    relevantArticles: [],
+    claimVerdicts: [],
+    counterSources: [],
+    commentAnalysis: null,
+    videoAnalysis: null,
+    hasVideo: false
+  }),
+  'comments': JSON.stringify({
+    commentAnalysis: {
+      overallTone: 'Replay fixture',
+      leaningSummary: 'Replay provider: no recorded comment analysis for this post.',
+      agreementLevel: 'mixed',
+      highlights: []
+    }
+  }),
+  'vision': 'Replay provider: no recorded visual description for this image.'
+};
+
+// Chunk size used when replaying a response as a stream
+const REPLAY_STREAM_CHUNK = 32;
+
+export function fixtureKey(request: CompletionRequest): string {
+  const hash = crypto.createHash('sha256')
+    .update(JSON.stringify({ purpose: request.purpose, messages: request.messages }))
+    .digest('hex')
+    .substring(0, 16);
+  return `${request.purpose}-${hash}`;
+}
+
+export function createReplayProvider(fixturesDir: string): LLMProvider {
+  const load = (request: CompletionRequest): string => {
+    if (fixturesDir) {
+      const file = path.join(fixturesDir, `${fixtureKey(request)}.json`);
+      try {
+        const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as { content: string };
+        return fixture.content;
+      } catch {
+        // not recorded — fall through to the canned response
+      }
+    }
+    return CANNED_RESPONSES[request.purpose];
+  };
+
+  return {
+    name: 'replay',
+    model: 'replay',
+
+    isAvailable(): boolean {
+      return true;
+    },
+
+    isCircuitOpen(): boolean {
+      return false;
+    },
+
+    // Replayed calls are counted (at no tokens) so usage reports work offline
+    async complete(request: CompletionRequest): Promise<string> {
+      recordCompletion(usageRole(request), 'replay', 'replay', null);
+      return load(request);
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      recordCompletion(usageRole(request), 'replay', 'replay', null);
+      const content = load(request);
+      for (let i = 0; i < content.length; i += REPLAY_STREAM_CHUNK) {
+        yield content.substring(i, i + REPLAY_STREAM_CHUNK);
+      }
+    }
+  };
+}
+
+// Wraps a live provider and writes every response as a replay fixture
+function withRecording(provider: LLMProvider, recordDir: string): LLMProvider {
+  const save = (request: CompletionRequest, content: string) => {
+    try {
+      fs.mkdirSync(recordDir, { recursive: true });
+      const file = path.join(recordDir, `${fixtureKey(request)}.json`);
+      fs.writeFileSync(file, JSON.stringify({ purpose: request.purpose, content }, null, 2));
+    } catch (error) {
+      log.error('LLM fixture record error', { error });
+    }
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    isAvailable: () => provider.isAvailable(),
+    isCircuitOpen: () => provider.isCircuitOpen(),
+
+    async complete(request: CompletionRequest): Promise<string> {
+      const content = await provider.complete(request);
+      save(request, content);
+      return content;
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      let content = '';
+      for await (const delta of provider.stream(request)) {
+        content += delta;
+        yield delta;
+      }
+      save(request, content);
+    }
+  };
+}
+
+// ============================================================
+// SELECTION — lazy, so dotenv has loaded before env is read
+// ============================================================
+
+function buildTextProvider(): LLMProvider {
+  const kind = process.env.LLM_PROVIDER || 'deepseek';
+  switch (kind) {
+    case 'replay':
+      return createReplayProvider(process.env.LLM_FIXTURES_DIR || '');
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        name: 'openai-compatible',
+        apiKey: process.env.LLM_API_KEY || '',
+        baseURL: process.env.LLM_BASE_URL || 'http://localhost:8080/v1',
+        model: process.env.LLM_MODEL || 'local-model',
+        requiresKey: false,
+        role: 'text'
+      });
+    case 'deepseek':
+      return createOpenAICompatibleProvider({
+        name: 'deepseek',
+        apiKey: process.env.DEEPSEEK_API_KEY || '',
+        baseURL: 'https://api.deepseek.com',
+        model: process.env.LLM_MODEL || 'deepseek-chat',
+        requiresKey: true,
+        role: 'text'
+      });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}"`);
+  }
+}
+
+function buildVisionProvider(): LLMProvider {
+  const kind = process.env.VISION_PROVIDER || 'qwen';
+  switch (kind) {
+    case 'replay':
+      return createReplayProvider(process.env.LLM_FIXTURES_DIR || '');
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        name: 'openai-compatible',
+        apiKey: process.env.VISION_API_KEY || '',
+        baseURL: process.env.VISION_BASE_URL || 'http://localhost:8080/v1',
+        model: process.env.VISION_MODEL || 'local-vision-model',
+        requiresKey: false,
+        role: 'vision'
+      });
+    case 'qwen':
+      return createOpenAICompatibleProvider({
+        name: 'qwen',
+        apiKey: process.env.QWEN_API_KEY || '',
+        baseURL: 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1',
+        model: process.env.VISION_MODEL || 'qwen-vl-max',
+        requiresKey: true,
+        role: 'vision'
+      });
+    default:
+      throw new Error(`Unknown VISION_PROVIDER "${kind}"`);
+  }
+}
+
+function maybeRecord(provider: LLMProvider): LLMProvider {
+  const recordDir = process.env.LLM_RECORD_DIR;
+  return recordDir && provider.name !== 'replay' ? withRecording(provider, recordDir) : provider;
+}
+
+let _text: LLMProvider | null = null;
+let _vision: LLMProvider | null = null;
+
+export function getTextProvider(): LLMProvider {
+  if (!_text) _text = maybeRecord(buildTextProvider());
+  return _text;
+}
+
+export function getVisionProvider(): LLMProvider {
+  if (!_vision) _vision = maybeRecord(buildVisionProvider());
+  return _vision;
+}
+
+// Override the providers in-process (e.g. to inject a replay provider from a script)
+export function setProviders(providers: { text?: LLMProvider; vision?: LLMProvider }): void {
+  if (providers.text) _text = providers.text;
+  if (providers.vision) _vision = providers.vision;
+}
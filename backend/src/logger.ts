@@ -0,0 +1,75 @@
+// Inkline - Structured Logging
+// One JSON object per line: { time, level, msg, requestId, ...fields }.
+// The request id is set per API request (index.ts) and follows every async call
+// made for it, so one request can be traced across all pipeline stages.
+//   LOG_LEVEL     = debug | info (default) | warn | error
+//   LOG_POST_TEXT = true — log post text and search queries instead of redacting them
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields that carry what a reader was looking at; redacted unless LOG_POST_TEXT=true
+const POST_TEXT_FIELDS = new Set(['text', 'query', 'queries', 'claim', 'comment', 'comments']);
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+/**
+ * Run `fn` (and everything it starts) with `requestId` on every log line
+ */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+function minLevel(): number {
+  const configured = (process.env.LOG_LEVEL || '').toLowerCase() as LogLevel;
+  return LEVELS[configured] ?? LEVELS.info;
+}
+
+function redact(value: unknown): unknown {
+  if (typeof value === 'string') return `[redacted, ${value.length} chars]`;
+  if (Array.isArray(value)) return `[redacted, ${value.length} items]`;
+  return '[redacted]';
+}
+
+function serializeError(error: unknown): unknown {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, ...(error.stack ? { stack: error.stack } : {}) };
+  }
+  return error;
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+  if (LEVELS[level] < minLevel()) return;
+
+  const showPostText = process.env.LOG_POST_TEXT === 'true';
+  const entry: LogFields = { time: new Date().toISOString(), level, msg };
+  const requestId = currentRequestId();
+  if (requestId) entry.requestId = requestId;
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    if (!showPostText && POST_TEXT_FIELDS.has(key)) entry[key] = redact(value);
+    else if (value instanceof Error || key === 'error') entry[key] = serializeError(value);
+    else entry[key] = value;
+  }
+
+  const line = JSON.stringify(entry) + '\n';
+  if (LEVELS[level] >= LEVELS.warn) process.stderr.write(line);
+  else process.stdout.write(line);
+}
+
+export const log = {
+  debug: (msg: string, fields?: LogFields) => write('debug', msg, fields),
+  info: (msg: string, fields?: LogFields) => write('info', msg, fields),
+  warn: (msg: string, fields?: LogFields) => write('warn', msg, fields),
+  error: (msg: string, fields?: LogFields) => write('error', msg, fields)
+};
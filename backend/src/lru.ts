@@ -0,0 +1,88 @@
+// Inkline - In-Process LRU Cache
+// Bounded by entry count and by total size, with a per-entry TTL.
+// Values are stored as serialized strings so their size is known and callers
+// always get a fresh copy they can modify.
+
+export interface LruCache {
+  get(key: string): string | null;
+  set(key: string, value: string, ttlSeconds: number): void;
+  delete(key: string): boolean;
+  clear(): void;
+  stats(): LruStats;
+}
+
+export interface LruStats {
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  evictions: number;
+}
+
+interface LruEntry {
+  value: string;
+  bytes: number;
+  expiresAt: number;
+}
+
+// Strings are UTF-16 in memory; key and value both count
+function sizeOf(key: string, value: string): number {
+  return (key.length + value.length) * 2;
+}
+
+export function createLruCache(options: { maxEntries: number; maxBytes: number }): LruCache {
+  // Map iteration order is insertion order: the first key is the least recently used
+  const entries = new Map<string, LruEntry>();
+  let bytes = 0;
+  let evictions = 0;
+
+  function remove(key: string): boolean {
+    const entry = entries.get(key);
+    if (!entry) return false;
+    entries.delete(key);
+    bytes -= entry.bytes;
+    return true;
+  }
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        return null;
+      }
+      // Move to the most recently used end
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value, ttlSeconds) {
+      remove(key);
+      const size = sizeOf(key, value);
+      // An entry larger than the whole budget is never stored
+      if (options.maxEntries <= 0 || size > options.maxBytes) return;
+
+      while (entries.size >= options.maxEntries || bytes + size > options.maxBytes) {
+        const oldest = entries.keys().next().value as string;
+        remove(oldest);
+        evictions++;
+      }
+
+      entries.set(key, { value, bytes: size, expiresAt: Date.now() + ttlSeconds * 1000 });
+      bytes += size;
+    },
+
+    delete: remove,
+
+    clear() {
+      entries.clear();
+      bytes = 0;
+    },
+
+    stats() {
+      return { entries: entries.size, bytes, maxEntries: options.maxEntries, maxBytes: options.maxBytes, evictions };
+    }
+  };
+}
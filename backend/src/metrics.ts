@@ -0,0 +1,168 @@
+// Inkline - Prometheus Metrics
+// Counters, gauges and histograms for the analysis pipeline, rendered in the
+// Prometheus text exposition format by GET /metrics. Values live in process
+// memory, so each instance is scraped separately.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Series are keyed by their label values in declaration order
+function seriesKey(labelNames: readonly string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map(name => labels[name] ?? ''));
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export interface Counter<L extends string> {
+  inc(labels: Record<L, string>, amount?: number): void;
+}
+
+export function createCounter<L extends string>(name: string, help: string, labelNames: readonly L[]): Counter<L> {
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  registry.push({
+    render: () => [
+      ...header(name, help, 'counter'),
+      ...Array.from(series.values()).map(s => `${name}${formatLabels(s.labels)} ${s.value}`)
+    ]
+  });
+
+  return {
+    inc(labels, amount = 1) {
+      const key = seriesKey(labelNames, labels);
+      const entry = series.get(key) || { labels: { ...labels }, value: 0 };
+      entry.value += amount;
+      series.set(key, entry);
+    }
+  };
+}
+
+/**
+ * A value read when scraped, e.g. from another module's status. `type` is
+ * 'counter' for values that only ever grow.
+ */
+export function createCollected(
+  name: string,
+  help: string,
+  type: 'gauge' | 'counter',
+  collect: () => Array<{ labels: Labels; value: number }>
+): void {
+  registry.push({
+    render: () => [
+      ...header(name, help, type),
+      ...collect().map(s => `${name}${formatLabels(s.labels)} ${s.value}`)
+    ]
+  });
+}
+
+// Seconds; analysis stages range from a cached lookup to a slow deep completion
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 40];
+
+export interface Histogram<L extends string> {
+  observe(labels: Record<L, string>, value: number): void;
+  // Starts a timer; call the returned function to observe the elapsed seconds
+  startTimer(labels: Record<L, string>): () => void;
+}
+
+export function createHistogram<L extends string>(
+  name: string,
+  help: string,
+  labelNames: readonly L[],
+  buckets: number[] = DEFAULT_BUCKETS
+): Histogram<L> {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  registry.push({
+    render: () => {
+      const lines = header(name, help, 'histogram');
+      for (const s of series.values()) {
+        let cumulative = 0;
+        buckets.forEach((bound, i) => {
+          cumulative += s.counts[i];
+          lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: String(bound) })} ${cumulative}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`);
+        lines.push(`${name}_sum${formatLabels(s.labels)} ${s.sum}`);
+        lines.push(`${name}_count${formatLabels(s.labels)} ${s.count}`);
+      }
+      return lines;
+    }
+  });
+
+  const observe = (labels: Record<L, string>, value: number) => {
+    const key = seriesKey(labelNames, labels);
+    const entry = series.get(key) || { labels: { ...labels }, counts: buckets.map(() => 0), sum: 0, count: 0 };
+    const bucket = buckets.findIndex(bound => value <= bound);
+    if (bucket >= 0) entry.counts[bucket]++;
+    entry.sum += value;
+    entry.count++;
+    series.set(key, entry);
+  };
+
+  return {
+    observe,
+    startTimer(labels) {
+      const start = process.hrtime.bigint();
+      return () => observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    }
+  };
+}
+
+/**
+ * Every registered metric in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  return registry.map(metric => metric.render().join('\n')).join('\n\n') + '\n';
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// ============================================================
+// PIPELINE METRICS — shared by index.ts and analyze.ts
+// ============================================================
+
+export const requestsTotal = createCounter(
+  'inkline_analysis_requests_total',
+  'Analysis requests accepted, by endpoint and tier',
+  ['endpoint', 'tier'] as const
+);
+
+export const stageDuration = createHistogram(
+  'inkline_stage_duration_seconds',
+  'Duration of each analysis stage (search, vision, links, llm)',
+  ['tier', 'stage'] as const
+);
+
+export const fallbackResults = createCounter(
+  'inkline_fallback_results_total',
+  'Results replaced by the generic amber fallback because the model call or its output failed',
+  ['tier'] as const
+);
+
+export const validationFailures = createCounter(
+  'inkline_validation_failures_total',
+  'Model responses that did not match their schema, by purpose and whether a repair fixed them',
+  ['purpose', 'outcome'] as const
+);
+
+export const ratingsTotal = createCounter(
+  'inkline_ratings_total',
+  'Overall ratings produced by the pipeline (cached results are not counted again)',
+  ['tier', 'rating'] as const
+);
@@ -0,0 +1,207 @@
+// Inkline - Source Reputation Database
+// Curated notes on outlets (by domain) and accounts (by handle): lean, ownership,
+// transparency and a track-record history. Matching entries are given to the deep
+// prompt as context for the SOURCE dimension and set `lean` on counter-sources.
+
+import { getCollection } from './store';
+import { ReputationEntry, TrackRecordEvent } from './types';
+import { log } from './logger';
+
+const reputation = getCollection<ReputationEntry>('reputation');
+
+// Track-record events shown to the model per entry (most recent first)
+const PROMPT_TRACK_RECORD_LIMIT = 3;
+
+const TRACK_RECORD_KINDS: TrackRecordEvent['kind'][] = ['correction', 'retraction', 'fact-check', 'award', 'ownership-change', 'note'];
+
+// ============================================================
+// IDS & VALIDATION
+// ============================================================
+
+/**
+ * Normalize an entry id: outlets are bare domains ("bbc.co.uk"), accounts are "@handle"
+ */
+export function normalizeReputationId(id: string): string {
+  const trimmed = id.trim().toLowerCase();
+  if (trimmed.startsWith('@')) return trimmed;
+  return trimmed.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+}
+
+/**
+ * Check an admin-supplied entry body. Returns an error message, or null if valid.
+ */
+export function validateReputationEntry(body: unknown): string | null {
+  if (!body || typeof body !== 'object') return 'Body must be a JSON object';
+  const e = body as Record<string, unknown>;
+
+  if (e.kind !== 'outlet' && e.kind !== 'account') return '"kind" must be "outlet" or "account"';
+  if (typeof e.name !== 'string' || e.name.length === 0) return '"name" is required';
+  if (typeof e.lean !== 'string') return '"lean" is required (e.g. "center", "left-lean", "right-lean")';
+
+  for (const field of ['ownership', 'transparency']) {
+    if (e[field] !== undefined && typeof e[field] !== 'string') return `"${field}" must be a string`;
+  }
+  for (const field of ['domains', 'handles']) {
+    if (e[field] !== undefined && (!Array.isArray(e[field]) || !(e[field] as unknown[]).every(v => typeof v === 'string'))) {
+      return `"${field}" must be an array of strings`;
+    }
+  }
+  if (e.trackRecord !== undefined) {
+    if (!Array.isArray(e.trackRecord)) return '"trackRecord" must be an array';
+    for (const event of e.trackRecord) {
+      const invalid = validateTrackRecordEvent(event);
+      if (invalid) return invalid;
+    }
+  }
+  return null;
+}
+
+export function validateTrackRecordEvent(body: unknown): string | null {
+  if (!body || typeof body !== 'object') return 'Track-record event must be a JSON object';
+  const e = body as Record<string, unknown>;
+  if (typeof e.date !== 'string' || isNaN(Date.parse(e.date))) return 'Track-record "date" must be an ISO date';
+  if (!TRACK_RECORD_KINDS.includes(e.kind as TrackRecordEvent['kind'])) {
+    return `Track-record "kind" must be one of: ${TRACK_RECORD_KINDS.join(', ')}`;
+  }
+  if (typeof e.note !== 'string' || e.note.length === 0) return 'Track-record "note" is required';
+  if (e.url !== undefined && typeof e.url !== 'string') return 'Track-record "url" must be a string';
+  return null;
+}
+
+// ============================================================
+// CRUD (admin API)
+// ============================================================
+
+export async function listReputation(kind?: ReputationEntry['kind']): Promise<ReputationEntry[]> {
+  const all = await reputation.list();
+  return all
+    .filter(e => !kind || e.kind === kind)
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export async function getReputation(id: string): Promise<ReputationEntry | null> {
+  return reputation.get(normalizeReputationId(id));
+}
+
+/**
+ * Create or replace an entry. `body` must already have passed validateReputationEntry.
+ */
+export async function putReputation(id: string, body: Record<string, unknown>): Promise<ReputationEntry> {
+  const entry: ReputationEntry = {
+    id: normalizeReputationId(id),
+    kind: body.kind as ReputationEntry['kind'],
+    name: body.name as string,
+    lean: body.lean as string,
+    ownership: body.ownership as string | undefined,
+    transparency: body.transparency as string | undefined,
+    domains: ((body.domains as string[] | undefined) || []).map(normalizeReputationId),
+    handles: ((body.handles as string[] | undefined) || []).map(h => normalizeReputationId(h.startsWith('@') ? h : `@${h}`)),
+    trackRecord: sortTrackRecord((body.trackRecord as TrackRecordEvent[] | undefined) || []),
+    updatedAt: new Date().toISOString()
+  };
+  await reputation.set(entry.id, entry);
+  return entry;
+}
+
+export async function addTrackRecordEvent(id: string, event: TrackRecordEvent): Promise<ReputationEntry | null> {
+  const entry = await getReputation(id);
+  if (!entry) return null;
+
+  entry.trackRecord = sortTrackRecord([...entry.trackRecord, {
+    date: event.date,
+    kind: event.kind,
+    note: event.note,
+    ...(event.url ? { url: event.url } : {})
+  }]);
+  entry.updatedAt = new Date().toISOString();
+  await reputation.set(entry.id, entry);
+  return entry;
+}
+
+export async function deleteReputation(id: string): Promise<boolean> {
+  return reputation.delete(normalizeReputationId(id));
+}
+
+function sortTrackRecord(events: TrackRecordEvent[]): TrackRecordEvent[] {
+  return [...events].sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+}
+
+// ============================================================
+// LOOKUP (analysis pipeline)
+// ============================================================
+
+function matchesDomain(domain: string, candidate: string): boolean {
+  return domain === candidate || domain.endsWith(`.${candidate}`);
+}
+
+/**
+ * Find outlet entries for a list of domains. Keys of the returned map are the domains given.
+ * Never throws — a store failure just means no reputation context.
+ */
+export async function lookupOutlets(domains: string[]): Promise<Map<string, ReputationEntry>> {
+  const found = new Map<string, ReputationEntry>();
+  if (domains.length === 0) return found;
+
+  try {
+    const outlets = (await reputation.list()).filter(e => e.kind === 'outlet');
+    for (const raw of domains) {
+      const domain = normalizeReputationId(raw);
+      const entry = outlets.find(e => matchesDomain(domain, e.id) || (e.domains || []).some(d => matchesDomain(domain, d)));
+      if (entry) found.set(raw, entry);
+    }
+  } catch (error) {
+    log.error('Reputation lookup error', { error });
+  }
+  return found;
+}
+
+/**
+ * Find the entry for a post author: an account entry, or an outlet that lists the handle
+ */
+export async function lookupAccount(author: string): Promise<ReputationEntry | null> {
+  if (!author || author === 'Unknown' || author === 'unknown') return null;
+  const handle = normalizeReputationId(author.startsWith('@') ? author : `@${author}`);
+
+  try {
+    const direct = await reputation.get(handle);
+    if (direct) return direct;
+    const all = await reputation.list();
+    return all.find(e => (e.handles || []).includes(handle)) || null;
+  } catch (error) {
+    log.error('Reputation lookup error', { error });
+    return null;
+  }
+}
+
+/**
+ * Prompt section describing the known reputation of the author and cited outlets
+ */
+export function buildReputationContext(account: ReputationEntry | null, outlets: Map<string, ReputationEntry>): string {
+  const entries: Array<{ role: string; entry: ReputationEntry }> = [];
+  if (account) entries.push({ role: 'POST AUTHOR', entry: account });
+  const seen = new Set<string>(account ? [account.id] : []);
+  for (const entry of outlets.values()) {
+    if (seen.has(entry.id)) continue;
+    seen.add(entry.id);
+    entries.push({ role: 'CITED OUTLET', entry });
+  }
+  if (entries.length === 0) return '';
+
+  let context = '\n--- SOURCE REPUTATION NOTES (curated by Inkline editors) ---';
+  for (const { role, entry } of entries) {
+    context += `\n\n${role}: ${entry.name} (${entry.id})`;
+    context += `\n    Lean: ${entry.lean || 'not recorded'}`;
+    if (entry.ownership) context += `\n    Ownership: ${entry.ownership}`;
+    if (entry.transparency) context += `\n    Transparency: ${entry.transparency}`;
+    const recent = entry.trackRecord.slice(0, PROMPT_TRACK_RECORD_LIMIT);
+    if (recent.length > 0) {
+      context += '\n    Track record:';
+      for (const event of recent) {
+        context += `\n      - ${event.date.substring(0, 10)} ${event.kind}: ${event.note}`;
+      }
+    }
+  }
+  context += '\n--- END REPUTATION NOTES ---';
+  context += '\n\nUse these notes as context for the SOURCE rating. They describe track record, not the accuracy of this specific post.';
+  return context;
+}
@@ -0,0 +1,222 @@
+// Inkline - Upstream Resilience
+// Every call to an upstream (LLM, vision and search providers) goes through an
+// Upstream: a timeout per attempt, jittered exponential backoff retries for
+// transient errors, and a circuit breaker per provider. After BREAKER_FAILURES
+// transient failures in a row the breaker opens and calls fail at once for
+// BREAKER_COOLDOWN_MS; then one trial call decides whether it closes again.
+//   UPSTREAM_RETRIES    = retries after the first attempt (default 2)
+//   BREAKER_FAILURES    = consecutive failures that open a breaker (default 5)
+//   BREAKER_COOLDOWN_MS = how long an open breaker rejects calls (default 30000)
+
+import { log } from './logger';
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerStatus {
+  state: BreakerState;
+  consecutiveFailures: number;
+  retryAt?: string;            // while open: when the next trial call is allowed
+}
+
+export class CircuitOpenError extends Error {
+  constructor(readonly upstream: string) {
+    super(`Circuit open for ${upstream}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class UpstreamTimeoutError extends Error {
+  constructor(readonly upstream: string, timeoutMs: number) {
+    super(`${upstream} timed out after ${timeoutMs}ms`);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+/**
+ * An error for a non-2xx upstream response; the status decides whether it is retried
+ */
+export function httpError(message: string, status: number, detail?: string): Error & { status: number } {
+  return Object.assign(new Error(`${message} ${status}${detail ? `: ${detail}` : ''}`), { status });
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BREAKER_FAILURES = 5;
+const DEFAULT_BREAKER_COOLDOWN_MS = 30 * 1000;
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 4000;
+
+function envInteger(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Timeouts, network failures, 408, 429 and 5xx are worth retrying; other errors
+ * (bad request, auth) would fail the same way again
+ */
+export function isTransient(error: unknown): boolean {
+  if (error instanceof UpstreamTimeoutError) return true;
+  if (error instanceof CircuitOpenError) return false;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  // No HTTP status: the request never got an answer (DNS, reset, abort)
+  return true;
+}
+
+// Full jitter: a random delay up to the exponential backoff for this attempt
+function backoffMs(attempt: number): number {
+  return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ============================================================
+// CIRCUIT BREAKERS — one per upstream name, shared by every caller
+// ============================================================
+
+interface Breaker {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: number;
+  trialInFlight: boolean;
+}
+
+const breakers = new Map<string, Breaker>();
+
+function breakerFor(name: string): Breaker {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = { state: 'closed', consecutiveFailures: 0, openedAt: 0, trialInFlight: false };
+    breakers.set(name, breaker);
+  }
+  return breaker;
+}
+
+function cooldownMs(): number {
+  return envInteger('BREAKER_COOLDOWN_MS', DEFAULT_BREAKER_COOLDOWN_MS);
+}
+
+// Whether a call may go ahead now; moves an open breaker past its cooldown to half-open
+function admit(name: string, breaker: Breaker): boolean {
+  if (breaker.state === 'open' && Date.now() - breaker.openedAt >= cooldownMs()) {
+    breaker.state = 'half-open';
+    log.info('Circuit half-open, allowing a trial call', { upstream: name });
+  }
+  if (breaker.state === 'closed') return true;
+  if (breaker.state === 'half-open' && !breaker.trialInFlight) {
+    breaker.trialInFlight = true;
+    return true;
+  }
+  return false;
+}
+
+function recordSuccess(name: string, breaker: Breaker): void {
+  if (breaker.state !== 'closed') log.info('Circuit closed', { upstream: name });
+  breaker.state = 'closed';
+  breaker.consecutiveFailures = 0;
+  breaker.trialInFlight = false;
+}
+
+function recordFailure(name: string, breaker: Breaker): void {
+  breaker.consecutiveFailures++;
+  breaker.trialInFlight = false;
+  const threshold = Math.max(1, envInteger('BREAKER_FAILURES', DEFAULT_BREAKER_FAILURES));
+  if (breaker.state === 'half-open' || (breaker.state === 'closed' && breaker.consecutiveFailures >= threshold)) {
+    breaker.state = 'open';
+    breaker.openedAt = Date.now();
+    log.warn('Circuit opened', { upstream: name, consecutiveFailures: breaker.consecutiveFailures });
+  }
+}
+
+/**
+ * True while calls to `name` are being rejected (open, and not yet due for a trial)
+ */
+export function isCircuitOpen(name: string): boolean {
+  const breaker = breakers.get(name);
+  return !!breaker && breaker.state === 'open' && Date.now() - breaker.openedAt < cooldownMs();
+}
+
+/**
+ * State of every breaker that has seen a call, for /health
+ */
+export function getBreakerStatus(): Record<string, BreakerStatus> {
+  const status: Record<string, BreakerStatus> = {};
+  for (const [name, breaker] of breakers) {
+    status[name] = {
+      state: isCircuitOpen(name) ? 'open' : breaker.state === 'open' ? 'half-open' : breaker.state,
+      consecutiveFailures: breaker.consecutiveFailures,
+      ...(isCircuitOpen(name) ? { retryAt: new Date(breaker.openedAt + cooldownMs()).toISOString() } : {})
+    };
+  }
+  return status;
+}
+
+// ============================================================
+// UPSTREAM CALLS
+// ============================================================
+
+export interface Upstream {
+  readonly name: string;
+  timeoutMs(): number;
+  // `work` receives a signal that aborts when the attempt times out
+  call<T>(work: (signal: AbortSignal) => Promise<T>): Promise<T>;
+}
+
+/**
+ * An upstream with its own breaker. `timeoutEnv` names the env variable that
+ * overrides `defaultTimeoutMs` for each attempt.
+ */
+export function createUpstream(name: string, timeoutEnv: string, defaultTimeoutMs: number): Upstream {
+  const timeoutMs = () => envInteger(timeoutEnv, defaultTimeoutMs);
+
+  async function attempt<T>(work: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const limit = timeoutMs();
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new UpstreamTimeoutError(name, limit));
+      }, limit);
+    });
+    try {
+      // Raced as well as aborted, in case `work` ignores the signal
+      return await Promise.race([work(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return {
+    name,
+    timeoutMs,
+
+    async call<T>(work: (signal: AbortSignal) => Promise<T>): Promise<T> {
+      const breaker = breakerFor(name);
+      const retries = envInteger('UPSTREAM_RETRIES', DEFAULT_RETRIES);
+
+      for (let n = 0; ; n++) {
+        if (!admit(name, breaker)) throw new CircuitOpenError(name);
+        try {
+          const result = await attempt(work);
+          recordSuccess(name, breaker);
+          return result;
+        } catch (error) {
+          if (!isTransient(error)) {
+            // The upstream answered; the request itself was at fault
+            recordSuccess(name, breaker);
+            throw error;
+          }
+          recordFailure(name, breaker);
+          if (n >= retries || isCircuitOpen(name)) throw error;
+          const delay = backoffMs(n);
+          log.warn('Upstream call failed, retrying', {
+            upstream: name, attempt: n + 1, delayMs: Math.round(delay),
+            error: error instanceof Error ? error.message : error
+          });
+          await sleep(delay);
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,256 @@
+// Inkline - Declared Schemas for Model Output
+// Small schema combinators that check the JSON the LLM returns, coerce near-misses
+// ("Amber", "0.8", "85%") to the expected type and collect field-level issues.
+// Nested objects are all-or-nothing, but a root `partialObject` keeps every field
+// that parsed — so one malformed section does not discard the rest, and the issues
+// can be sent back to the model for a repair attempt.
+
+export interface SchemaIssue {
+  path: string;                // e.g. "perspective.rating", "commentAnalysis.highlights[2]"; "" for the root
+  message: string;
+}
+
+export interface Schema<T> {
+  readonly optional: boolean;  // a missing value is not an issue
+  // Returns undefined when the input is invalid; the reason is pushed to `issues`
+  parse(input: unknown, path: string, issues: SchemaIssue[]): T | undefined;
+}
+
+function issueAt(issues: SchemaIssue[], path: string, message: string, input?: unknown): undefined {
+  const got = input === undefined ? '' : ` (got ${JSON.stringify(input)?.substring(0, 60)})`;
+  issues.push({ path, message: `${message}${got}` });
+  return undefined;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// ============================================================
+// SCALARS
+// ============================================================
+
+export function string(options: { nonEmpty?: boolean; maxLength?: number } = {}): Schema<string> {
+  return {
+    optional: false,
+    parse(input, path, issues) {
+      let value: string;
+      if (typeof input === 'string') value = input.trim();
+      else if (typeof input === 'number' || typeof input === 'boolean') value = String(input);
+      else return issueAt(issues, path, 'expected a string', input);
+
+      if (options.nonEmpty && value.length === 0) return issueAt(issues, path, 'must not be empty');
+      if (options.maxLength && value.length > options.maxLength) value = value.substring(0, options.maxLength);
+      return value;
+    }
+  };
+}
+
+export function integer(options: { min?: number } = {}): Schema<number> {
+  return {
+    optional: false,
+    parse(input, path, issues) {
+      const value = typeof input === 'string' && input.trim() !== '' ? Number(input) : input;
+      if (typeof value !== 'number' || !Number.isInteger(value)) return issueAt(issues, path, 'expected an integer', input);
+      if (options.min !== undefined && value < options.min) return issueAt(issues, path, `must be at least ${options.min}`, input);
+      return value;
+    }
+  };
+}
+
+/**
+ * A number from 0 to 1. Percentages ("85%", 85) are converted; out-of-range values are clamped.
+ */
+export function fraction(): Schema<number> {
+  return {
+    optional: false,
+    parse(input, path, issues) {
+      let value: number;
+      if (typeof input === 'number') value = input;
+      else if (typeof input === 'string' && /^\s*\d+(\.\d+)?\s*%?\s*$/.test(input)) {
+        value = parseFloat(input);
+        if (input.includes('%')) value /= 100;
+      } else return issueAt(issues, path, 'expected a number from 0 to 1', input);
+
+      if (!Number.isFinite(value)) return issueAt(issues, path, 'expected a number from 0 to 1', input);
+      if (value > 1 && value <= 100) value /= 100;
+      return Math.min(1, Math.max(0, value));
+    }
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    optional: false,
+    parse(input, path, issues) {
+      if (typeof input === 'boolean') return input;
+      if (input === 'true' || input === 'false') return input === 'true';
+      return issueAt(issues, path, 'expected true or false', input);
+    }
+  };
+}
+
+/**
+ * One of a fixed set of strings. Matching ignores case and surrounding whitespace;
+ * `aliases` maps other spellings the model uses onto allowed values.
+ */
+export function oneOf<T extends string>(values: readonly T[], aliases: Record<string, T> = {}): Schema<T> {
+  return {
+    optional: false,
+    parse(input, path, issues) {
+      if (typeof input !== 'string') return issueAt(issues, path, `expected one of ${values.map(v => `"${v}"`).join(', ')}`, input);
+      const normalized = input.trim().toLowerCase();
+      const match = values.find(v => v === normalized) || aliases[normalized];
+      if (!match) return issueAt(issues, path, `expected one of ${values.map(v => `"${v}"`).join(', ')}`, input);
+      return match;
+    }
+  };
+}
+
+// ============================================================
+// MODIFIERS
+// ============================================================
+
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return {
+    optional: true,
+    parse: (input, path, issues) => input === undefined ? undefined : inner.parse(input, path, issues)
+  };
+}
+
+/**
+ * Null is a valid value; "null", "" and "none" are read as null
+ */
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return {
+    optional: inner.optional,
+    parse(input, path, issues) {
+      if (input === null || input === undefined) return null;
+      if (typeof input === 'string' && ['', 'null', 'none', 'n/a'].includes(input.trim().toLowerCase())) return null;
+      return inner.parse(input, path, issues);
+    }
+  };
+}
+
+/**
+ * Missing or invalid values become `fallback` without raising an issue
+ */
+export function withDefault<T>(inner: Schema<T>, fallback: T): Schema<T> {
+  return {
+    optional: true,
+    parse(input, path) {
+      if (input === undefined) return fallback;
+      const value = inner.parse(input, path, []);
+      return value === undefined ? fallback : value;
+    }
+  };
+}
+
+// ============================================================
+// COMPOSITES
+// ============================================================
+
+/**
+ * Array whose invalid items are dropped (each raising an issue). Longer arrays are cut to `max`.
+ */
+export function array<T>(item: Schema<T>, options: { max?: number } = {}): Schema<T[]> {
+  return {
+    optional: false,
+    parse(input, path, issues) {
+      if (!Array.isArray(input)) return issueAt(issues, path, 'expected an array', input);
+      const values: T[] = [];
+      input.forEach((entry, i) => {
+        const value = item.parse(entry, join(path, i), issues);
+        if (value !== undefined) values.push(value);
+      });
+      return options.max !== undefined ? values.slice(0, options.max) : values;
+    }
+  };
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+function parseFields<T>(shape: Shape<T>, input: Record<string, unknown>, path: string, issues: SchemaIssue[]): { value: Partial<T>; ok: boolean } {
+  const value: Partial<T> = {};
+  let ok = true;
+  for (const key of Object.keys(shape) as Array<keyof T & string>) {
+    const field = shape[key];
+    const fieldPath = join(path, key);
+    if (input[key] === undefined && !field.optional) {
+      issueAt(issues, fieldPath, 'missing required field');
+      ok = false;
+      continue;
+    }
+    const before = issues.length;
+    const parsed = field.parse(input[key], fieldPath, issues);
+    if (issues.length > before && parsed === undefined && !field.optional) ok = false;
+    if (parsed !== undefined) value[key] = parsed;
+  }
+  return { value, ok };
+}
+
+function isRecord(input: unknown): input is Record<string, unknown> {
+  return !!input && typeof input === 'object' && !Array.isArray(input);
+}
+
+/**
+ * Object that is only valid if every required field is
+ */
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return {
+    optional: false,
+    parse(input, path, issues) {
+      if (!isRecord(input)) return issueAt(issues, path, 'expected an object', input);
+      const { value, ok } = parseFields(shape, input, path, issues);
+      return ok ? value as T : undefined;
+    }
+  };
+}
+
+/**
+ * Object that keeps whichever fields parsed, even if required ones are missing or invalid
+ */
+export function partialObject<T>(shape: Shape<T>): Schema<Partial<T>> {
+  return {
+    optional: false,
+    parse(input, path, issues) {
+      if (!isRecord(input)) return issueAt(issues, path, 'expected an object', input);
+      return parseFields(shape, input, path, issues).value;
+    }
+  };
+}
+
+// ============================================================
+// ENTRY POINTS
+// ============================================================
+
+export function validate<T>(schema: Schema<T>, input: unknown): { value: T | undefined; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  const value = schema.parse(input, '', issues);
+  return { value, issues };
+}
+
+/**
+ * Parse a model response (optionally wrapped in a ```json fence) and validate it
+ */
+export function parseModelOutput<T>(schema: Schema<T>, content: string): { value: T | undefined; issues: SchemaIssue[] } {
+  let json = content.trim();
+  const fenced = json.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced) json = fenced[1];
+
+  let input: unknown;
+  try {
+    input = JSON.parse(json);
+  } catch (error) {
+    return { value: undefined, issues: [{ path: '', message: `response is not valid JSON: ${error instanceof Error ? error.message : error}` }] };
+  }
+  return validate(schema, input);
+}
+
+/**
+ * Issues as a list for a repair prompt
+ */
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues.map(i => `- ${i.path || '(response)'}: ${i.message}`).join('\n');
+}
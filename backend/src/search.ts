@@ -1,5 +1,13 @@
 // Inkline - Web Search for Real-Time Counter-Sources
-// Uses Tavily Search API to find real articles on the same topic
+// Finds real articles on the same topic through a pluggable search provider:
+//   SEARCH_PROVIDER = tavily (default) | searxng | elasticsearch | corpus
+// Domain filters come from SEARCH_INCLUDE_DOMAINS / SEARCH_EXCLUDE_DOMAINS (comma-separated)
+
+import fs from 'fs';
+import { truncateText } from './language';
+import { recordSearch } from './usage';
+import { createUpstream, httpError, isCircuitOpen, Upstream } from './resilience';
+import { log } from './logger';
 
 export interface SearchResult {
   title: string;
@@ -9,76 +17,346 @@ export interface SearchResult {
   score: number;     // relevance score
 }
 
+export interface SearchOptions {
+  maxResults: number;
+  includeDomains: string[];    // empty = no restriction
+  excludeDomains: string[];
+  language?: string;           // two-letter code of the query's language, for providers that filter by it
+  signal?: AbortSignal;        // aborts the request when the call times out
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  isAvailable(): boolean;
+  search(query: string, options: SearchOptions): Promise<SearchResult[]>;
+}
+
+// Used when SEARCH_EXCLUDE_DOMAINS is not set
+const DEFAULT_EXCLUDE_DOMAINS = [
+  'twitter.com', 'x.com',       // exclude the platform itself
+  'reddit.com',                   // exclude social aggregators
+  'facebook.com', 'instagram.com'
+];
+
+// Snippets are trimmed to keep the deep prompt small
+const SNIPPET_LENGTH = 200;
+
+// ============================================================
+// TAVILY — hosted search API
+// ============================================================
+
+function createTavilyProvider(apiKey: string): SearchProvider {
+  return {
+    name: 'tavily',
+
+    isAvailable(): boolean {
+      return apiKey.length > 5;
+    },
+
+    async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+      const response = await fetch('https://api.tavily.com/search', {
+        method: 'POST',
+        signal: options.signal,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          api_key: apiKey,
+          query: query,
+          search_depth: 'basic',
+          max_results: options.maxResults,
+          include_answer: false,
+          include_raw_content: false,
+          include_domains: options.includeDomains,
+          exclude_domains: options.excludeDomains
+        })
+      });
+
+      if (!response.ok) {
+        const errText = await response.text();
+        throw httpError('Tavily API error', response.status, errText);
+      }
+
+      const data = await response.json() as { results?: Array<{
+        title: string;
+        url: string;
+        content: string;
+        score: number;
+      }> };
+
+      if (!data.results || !Array.isArray(data.results)) {
+        return [];
+      }
+
+      return data.results.map(r => toSearchResult(r.title, r.url, r.content, r.score));
+    }
+  };
+}
+
+// ============================================================
+// SEARXNG — self-hosted metasearch (JSON output must be enabled)
+// ============================================================
+
+function createSearxngProvider(baseUrl: string): SearchProvider {
+  return {
+    name: 'searxng',
+
+    isAvailable(): boolean {
+      return baseUrl.length > 0;
+    },
+
+    async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+      // SearxNG has no domain filter parameter beyond `site:` operators — filtered afterwards
+      const language = options.language ? `&language=${encodeURIComponent(options.language)}` : '';
+      const url = `${baseUrl.replace(/\/$/, '')}/search?q=${encodeURIComponent(query)}&format=json&categories=news,general${language}`;
+      const response = await fetch(url, { headers: { 'Accept': 'application/json' }, signal: options.signal });
+
+      if (!response.ok) {
+        throw httpError('SearxNG error', response.status);
+      }
+
+      const data = await response.json() as { results?: Array<{
+        title?: string;
+        url?: string;
+        content?: string;
+        score?: number;
+      }> };
+
+      if (!data.results || !Array.isArray(data.results)) {
+        return [];
+      }
+
+      return data.results.map(r => toSearchResult(r.title, r.url, r.content, r.score));
+    }
+  };
+}
+
+// ============================================================
+// ELASTICSEARCH — self-hosted article index
+// Documents need `title`, `url` and `content` (or `body`) fields
+// ============================================================
+
+function createElasticsearchProvider(baseUrl: string, index: string, apiKey: string): SearchProvider {
+  return {
+    name: 'elasticsearch',
+
+    isAvailable(): boolean {
+      return baseUrl.length > 0;
+    },
+
+    async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) headers['Authorization'] = `ApiKey ${apiKey}`;
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/${index}/_search`, {
+        method: 'POST',
+        headers,
+        signal: options.signal,
+        body: JSON.stringify({
+          size: options.maxResults * 2,   // headroom for domain filtering
+          query: {
+            multi_match: { query, fields: ['title^2', 'content', 'body'] }
+          }
+        })
+      });
+
+      if (!response.ok) {
+        throw httpError('Elasticsearch error', response.status);
+      }
+
+      const data = await response.json() as { hits?: { hits?: Array<{
+        _score?: number;
+        _source?: { title?: string; url?: string; content?: string; body?: string };
+      }> } };
+
+      const hits = data.hits?.hits;
+      if (!Array.isArray(hits)) return [];
+
+      return hits.map(h => {
+        const doc = h._source || {};
+        return toSearchResult(doc.title, doc.url, doc.content || doc.body, h._score);
+      });
+    }
+  };
+}
+
+// ============================================================
+// CORPUS — local JSON file of articles, for offline runs and tests
+// File: [{ "title": "...", "url": "...", "content": "..." }, ...]
+// ============================================================
+
+interface CorpusArticle {
+  title: string;
+  url: string;
+  content: string;
+}
+
+function createCorpusProvider(corpusPath: string): SearchProvider {
+  let corpus: CorpusArticle[] | null = null;
+  const load = (): CorpusArticle[] => {
+    if (!corpus) {
+      const raw = JSON.parse(fs.readFileSync(corpusPath, 'utf8'));
+      corpus = Array.isArray(raw) ? raw : [];
+    }
+    return corpus!;
+  };
+
+  return {
+    name: 'corpus',
+
+    isAvailable(): boolean {
+      return corpusPath.length > 0 && fs.existsSync(corpusPath);
+    },
+
+    async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+      // Rank by the share of query terms found in the article — deterministic
+      const terms = tokenize(query);
+      if (terms.length === 0) return [];
+
+      return load()
+        .map(article => {
+          const words = new Set(tokenize(`${article.title} ${article.content}`));
+          const hits = terms.filter(t => words.has(t)).length;
+          return { article, score: hits / terms.length };
+        })
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(r => toSearchResult(r.article.title, r.article.url, r.article.content, r.score));
+    }
+  };
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 2);
+}
+
+// ============================================================
+// PROVIDER SELECTION — lazy, so dotenv has loaded before env is read
+// ============================================================
+
+let _provider: SearchProvider | null = null;
+
+function getSearchProvider(): SearchProvider {
+  if (!_provider) {
+    const kind = process.env.SEARCH_PROVIDER || 'tavily';
+    switch (kind) {
+      case 'tavily':
+        _provider = createTavilyProvider(process.env.TAVILY_API_KEY || '');
+        break;
+      case 'searxng':
+        _provider = createSearxngProvider(process.env.SEARCH_URL || '');
+        break;
+      case 'elasticsearch':
+        _provider = createElasticsearchProvider(
+          process.env.SEARCH_URL || '',
+          process.env.SEARCH_INDEX || 'articles',
+          process.env.SEARCH_API_KEY || ''
+        );
+        break;
+      case 'corpus':
+        _provider = createCorpusProvider(process.env.SEARCH_CORPUS_PATH || '');
+        break;
+      default:
+        throw new Error(`Unknown SEARCH_PROVIDER "${kind}"`);
+    }
+  }
+  return _provider;
+}
+
+// One breaker per provider
+const DEFAULT_SEARCH_TIMEOUT_MS = 8 * 1000;
+const upstreams = new Map<string, Upstream>();
+
+function upstreamFor(provider: SearchProvider): Upstream {
+  let upstream = upstreams.get(provider.name);
+  if (!upstream) {
+    upstream = createUpstream(`search:${provider.name}`, 'SEARCH_TIMEOUT_MS', DEFAULT_SEARCH_TIMEOUT_MS);
+    upstreams.set(provider.name, upstream);
+  }
+  return upstream;
+}
+
+/**
+ * True while the search provider's breaker rejects calls
+ */
+export function isSearchCircuitOpen(): boolean {
+  return isCircuitOpen(`search:${getSearchProvider().name}`);
+}
+
+/**
+ * Override the search provider in-process (e.g. to inject a fixture provider from a script)
+ */
+export function setSearchProvider(provider: SearchProvider): void {
+  _provider = provider;
+}
+
+function parseDomainList(value: string | undefined, fallback: string[]): string[] {
+  if (value === undefined) return fallback;
+  return value.split(',').map(d => d.trim().toLowerCase()).filter(d => d.length > 0);
+}
+
+function getSearchOptions(maxResults: number): SearchOptions {
+  return {
+    maxResults,
+    includeDomains: parseDomainList(process.env.SEARCH_INCLUDE_DOMAINS, []),
+    excludeDomains: parseDomainList(process.env.SEARCH_EXCLUDE_DOMAINS, DEFAULT_EXCLUDE_DOMAINS)
+  };
+}
+
+// A domain list entry matches the domain itself and its subdomains
+function matchesDomain(domain: string, list: string[]): boolean {
+  return list.some(d => domain === d || domain.endsWith(`.${d}`));
+}
+
 /**
  * Search the web for articles related to a tweet's topic
  * Returns up to `maxResults` relevant articles
  */
 export async function searchTopic(
   query: string,
-  maxResults: number = 5
+  maxResults: number = 5,
+  language?: string
 ): Promise<SearchResult[]> {
-  const apiKey = process.env.TAVILY_API_KEY;
-  if (!apiKey) {
-    console.log('[Inkline] No TAVILY_API_KEY configured, skipping web search');
+  const provider = getSearchProvider();
+  if (!provider.isAvailable()) {
+    log.info('Search provider not configured, skipping web search', { provider: provider.name });
     return [];
   }
 
   try {
-    console.log('[Inkline] Tavily: searching for related articles...');
-
-    const response = await fetch('https://api.tavily.com/search', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        api_key: apiKey,
-        query: query,
-        search_depth: 'basic',
-        max_results: maxResults,
-        include_answer: false,
-        include_raw_content: false,
-        include_domains: [],      // no filter — get diverse sources
-        exclude_domains: [
-          'twitter.com', 'x.com',       // exclude the platform itself
-          'reddit.com',                   // exclude social aggregators
-          'facebook.com', 'instagram.com'
-        ]
-      })
-    });
+    log.info('Searching for related articles', { provider: provider.name, query });
 
-    if (!response.ok) {
-      const errText = await response.text();
-      throw new Error(`Tavily API error ${response.status}: ${errText}`);
-    }
-
-    const data = await response.json() as { results?: Array<{
-      title: string;
-      url: string;
-      content: string;
-      score: number;
-    }> };
-
-    if (!data.results || !Array.isArray(data.results)) {
-      return [];
-    }
+    const options = { ...getSearchOptions(maxResults), ...(language ? { language } : {}) };
+    const raw = await upstreamFor(provider).call(signal => {
+      recordSearch(provider.name);
+      return provider.search(query, { ...options, signal });
+    });
 
-    const results: SearchResult[] = data.results.map(r => ({
-      title: r.title || '',
-      url: r.url || '',
-      content: (r.content || '').substring(0, 200),
-      source: extractDomain(r.url || ''),
-      score: r.score || 0
-    }));
+    // Applied for every provider, including those that filter server-side
+    const results = raw
+      .filter(r => r.url && r.title)
+      .filter(r => options.includeDomains.length === 0 || matchesDomain(r.source, options.includeDomains))
+      .filter(r => !matchesDomain(r.source, options.excludeDomains))
+      .slice(0, maxResults);
 
-    console.log(`[Inkline] Tavily: found ${results.length} articles`);
+    log.info('Search results', { provider: provider.name, found: results.length });
     return results;
   } catch (error) {
-    console.error('[Inkline] Tavily search error:', error);
+    log.error('Search error', { provider: provider.name, error });
     return [];
   }
 }
 
+function toSearchResult(title?: string, url?: string, content?: string, score?: number): SearchResult {
+  return {
+    title: title || '',
+    url: url || '',
+    content: (content || '').substring(0, SNIPPET_LENGTH),
+    source: extractDomain(url || ''),
+    score: score || 0
+  };
+}
+
 /**
  * Build a search query from tweet text
  * Strips mentions, URLs, hashtags and takes the core claim
@@ -86,19 +364,19 @@ export async function searchTopic(
 export function buildSearchQuery(tweetText: string, author: string = ''): string {
   let query = tweetText
     .replace(/https?:\/\/\S+/g, '')          // remove URLs
-    .replace(/@\w+/g, '')                     // remove mentions
-    .replace(/#(\w+)/g, '$1')                 // keep hashtag text but remove #
+    .replace(/@[\p{L}\p{N}_]+/gu, '')         // remove mentions
+    .replace(/#([\p{L}\p{N}_]+)/gu, '$1')     // keep hashtag text (any script) but remove #
     .replace(/\s+/g, ' ')                     // normalize whitespace
     .trim();
 
   // Truncate to a reasonable search length
   if (query.length > 200) {
-    query = query.substring(0, 200);
+    query = truncateText(query, 200);
   }
 
   // If too short after cleaning, use original
   if (query.length < 15) {
-    query = tweetText.substring(0, 200);
+    query = truncateText(tweetText, 200);
   }
 
   return query;
@@ -120,5 +398,12 @@ function extractDomain(url: string): string {
  * Check if web search is configured
  */
 export function isSearchAvailable(): boolean {
-  return !!(process.env.TAVILY_API_KEY && process.env.TAVILY_API_KEY.length > 5);
+  return getSearchProvider().isAvailable();
+}
+
+/**
+ * Name of the configured search provider (for /health)
+ */
+export function getSearchProviderName(): string {
+  return getSearchProvider().name;
 }
@@ -0,0 +1,143 @@
+// Inkline - Single-Flight Request Coalescing
+// When a post goes viral, many readers open it within seconds. Concurrent requests
+// for the same key share one in-flight run and all receive its result (and, for
+// streams, its events). With Redis connected a lock key extends this across
+// instances: the instance holding the lock runs, the others wait for its result.
+
+import crypto from 'crypto';
+import { getRedisClient } from './cache';
+import { log } from './logger';
+
+export interface SingleFlightOptions<T, E> {
+  onEvent?: (event: E) => void;          // receives every event of the shared run, including earlier ones
+  // Another instance holds the lock: poll for its result (e.g. a cache lookup).
+  // Without it, the run goes ahead without the cross-instance lock.
+  awaitRemote?: () => Promise<T | null>;
+}
+
+export interface SingleFlight<T, E> {
+  // `shared` is true when the result came from a run started by another request
+  run(
+    key: string,
+    work: (emit: (event: E) => void) => Promise<T>,
+    options?: SingleFlightOptions<T, E>
+  ): Promise<{ value: T; shared: boolean }>;
+  inFlight(): number;
+}
+
+interface Flight<T, E> {
+  promise: Promise<{ value: T; remote: boolean }>;
+  events: E[];
+  listeners: Set<(event: E) => void>;
+}
+
+// The holder renews its lock every LOCK_RENEW_MS for as long as its run lasts (a
+// deep analysis with retries can take minutes), so the lock only expires when the
+// holder stops renewing it — e.g. its instance died mid-run.
+const LOCK_TTL_MS = 30 * 1000;
+const LOCK_RENEW_MS = 10 * 1000;
+// Waiting instances give up and run themselves after this long, even if the lock is still held
+const MAX_REMOTE_WAIT_MS = 5 * 60 * 1000;
+const REMOTE_POLL_MS = 500;
+
+// Deletes / extends the lock only if this instance still owns it
+const RELEASE_SCRIPT = 'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end';
+const RENEW_SCRIPT = 'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("pexpire", KEYS[1], ARGV[2]) else return 0 end';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createSingleFlight<T, E = never>(name: string): SingleFlight<T, E> {
+  const flights = new Map<string, Flight<T, E>>();
+
+  // Wait while another instance holds the lock. Returns its result, or null if the
+  // lock went away (or expired) without one — then this instance runs itself.
+  async function waitForRemote(lockKey: string, awaitRemote: () => Promise<T | null>): Promise<T | null> {
+    const redis = getRedisClient();
+    const deadline = Date.now() + MAX_REMOTE_WAIT_MS;
+    while (redis && Date.now() < deadline) {
+      await sleep(REMOTE_POLL_MS);
+      const value = await awaitRemote();
+      if (value) return value;
+      if (!(await redis.exists(lockKey))) return awaitRemote();
+    }
+    return null;
+  }
+
+  async function runLocked(
+    key: string,
+    work: () => Promise<T>,
+    awaitRemote?: () => Promise<T | null>
+  ): Promise<{ value: T; remote: boolean }> {
+    const redis = getRedisClient();
+    if (!redis || !awaitRemote) return { value: await work(), remote: false };
+
+    const lockKey = `ts:lock:${name}:${key}`;
+    const token = crypto.randomUUID();
+    let acquired = false;
+    try {
+      acquired = (await redis.set(lockKey, token, 'PX', LOCK_TTL_MS, 'NX')) === 'OK';
+    } catch (error) {
+      log.error('Lock error', { flight: name, error });
+      return { value: await work(), remote: false };
+    }
+
+    if (!acquired) {
+      log.info('Waiting for another instance', { flight: name, key });
+      const remote = await waitForRemote(lockKey, awaitRemote).catch(() => null);
+      if (remote) return { value: remote, remote: true };
+      log.warn('No result from the other instance, running here', { flight: name, key });
+      return { value: await work(), remote: false };
+    }
+
+    const heartbeat = setInterval(() => {
+      redis.eval(RENEW_SCRIPT, 1, lockKey, token, LOCK_TTL_MS).then(renewed => {
+        if (renewed) return;
+        log.warn('Lock lost before the run finished', { flight: name, key });
+        clearInterval(heartbeat);
+      }).catch(error => log.error('Lock renew error', { flight: name, error }));
+    }, LOCK_RENEW_MS);
+    heartbeat.unref();
+
+    try {
+      return { value: await work(), remote: false };
+    } finally {
+      clearInterval(heartbeat);
+      redis.eval(RELEASE_SCRIPT, 1, lockKey, token).catch(error => {
+        log.error('Unlock error', { flight: name, error });
+      });
+    }
+  }
+
+  return {
+    async run(key, work, options = {}) {
+      const existing = flights.get(key);
+      if (existing) {
+        log.info('Joining in-flight run', { flight: name, key });
+        if (options.onEvent) {
+          existing.events.forEach(options.onEvent);
+          existing.listeners.add(options.onEvent);
+        }
+        return { value: (await existing.promise).value, shared: true };
+      }
+
+      const events: E[] = [];
+      const listeners = new Set<(event: E) => void>();
+      if (options.onEvent) listeners.add(options.onEvent);
+      const emit = (event: E) => {
+        events.push(event);
+        listeners.forEach(listener => listener(event));
+      };
+
+      const promise = runLocked(key, () => work(emit), options.awaitRemote)
+        .finally(() => flights.delete(key));
+      flights.set(key, { promise, events, listeners });
+
+      const { value, remote } = await promise;
+      return { value, shared: remote };
+    },
+
+    inFlight() {
+      return flights.size;
+    }
+  };
+}
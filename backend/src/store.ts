@@ -0,0 +1,128 @@
+// Inkline - Persistent Record Store
+// Small keyed collections of JSON records (reputation entries, author history, ...)
+// Backed by a Redis hash per collection when Redis is connected,
+// otherwise by a JSON file per collection under DATA_DIR (default ./data)
+
+import fs from 'fs';
+import path from 'path';
+import { getRedisClient } from './cache';
+import { log } from './logger';
+
+export interface Collection<T> {
+  get(id: string): Promise<T | null>;
+  set(id: string, value: T): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  list(): Promise<T[]>;
+}
+
+// File-backed collections are held in memory; a change schedules one write of the
+// whole file FILE_WRITE_DELAY_MS later, so a burst of changes costs a single write.
+// Writes still pending are flushed when the process exits.
+const fileCollections = new Map<string, Map<string, unknown>>();
+const FILE_WRITE_DELAY_MS = 1000;
+const pendingWrites = new Map<string, NodeJS.Timeout>();
+let flushOnExit = false;
+
+function dataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+function loadFile(name: string): Map<string, unknown> {
+  let records = fileCollections.get(name);
+  if (!records) {
+    records = new Map();
+    const file = path.join(dataDir(), `${name}.json`);
+    try {
+      const raw = JSON.parse(fs.readFileSync(file, 'utf8')) as Record<string, unknown>;
+      for (const [id, value] of Object.entries(raw)) records.set(id, value);
+    } catch {
+      // no file yet — start empty
+    }
+    fileCollections.set(name, records);
+  }
+  return records;
+}
+
+function saveFile(name: string): void {
+  const records = loadFile(name);
+  fs.mkdirSync(dataDir(), { recursive: true });
+  const file = path.join(dataDir(), `${name}.json`);
+  // Write then rename so a crash mid-write never leaves a truncated file
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(Object.fromEntries(records), null, 2));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+function writeNow(name: string): void {
+  clearTimeout(pendingWrites.get(name));
+  pendingWrites.delete(name);
+  try {
+    saveFile(name);
+  } catch (error) {
+    log.error('Record store write error', { collection: name, error });
+  }
+}
+
+function scheduleSave(name: string): void {
+  if (pendingWrites.has(name)) return;
+  if (!flushOnExit) {
+    process.once('exit', flushStore);
+    flushOnExit = true;
+  }
+  // Unref'd: a pending write never keeps the process alive; the exit hook writes it
+  pendingWrites.set(name, setTimeout(() => writeNow(name), FILE_WRITE_DELAY_MS).unref());
+}
+
+/**
+ * Write every file collection with unsaved changes now
+ */
+function flushStore(): void {
+  for (const name of [...pendingWrites.keys()]) writeNow(name);
+}
+
+/**
+ * Get a named collection. Errors from Redis are thrown to the caller; file writes
+ * happen later, and their errors are logged.
+ */
+export function getCollection<T>(name: string): Collection<T> {
+  const redisKey = `ts:store:${name}`;
+
+  return {
+    async get(id: string): Promise<T | null> {
+      const redis = getRedisClient();
+      if (redis) {
+        const value = await redis.hget(redisKey, id);
+        return value ? JSON.parse(value) as T : null;
+      }
+      return (loadFile(name).get(id) as T | undefined) ?? null;
+    },
+
+    async set(id: string, value: T): Promise<void> {
+      const redis = getRedisClient();
+      if (redis) {
+        await redis.hset(redisKey, id, JSON.stringify(value));
+        return;
+      }
+      loadFile(name).set(id, value);
+      scheduleSave(name);
+    },
+
+    async delete(id: string): Promise<boolean> {
+      const redis = getRedisClient();
+      if (redis) {
+        return (await redis.hdel(redisKey, id)) > 0;
+      }
+      const existed = loadFile(name).delete(id);
+      if (existed) scheduleSave(name);
+      return existed;
+    },
+
+    async list(): Promise<T[]> {
+      const redis = getRedisClient();
+      if (redis) {
+        const all = await redis.hgetall(redisKey);
+        return Object.values(all).map(v => JSON.parse(v) as T);
+      }
+      return Array.from(loadFile(name).values()) as T[];
+    }
+  };
+}
@@ -0,0 +1,108 @@
+// Inkline - Streaming helpers
+// Server-Sent Events output + incremental parsing of a streamed JSON object
+
+import { Response } from 'express';
+import { AnalysisStreamEvent } from './types';
+
+/**
+ * Prepare a response for Server-Sent Events
+ */
+export function openEventStream(res: Response): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // stop reverse proxies from buffering events
+  res.flushHeaders();
+}
+
+/**
+ * Write one event — the stage name becomes the SSE event type
+ */
+export function writeEvent(res: Response, event: AnalysisStreamEvent): void {
+  if (res.writableEnded) return;
+  res.write(`event: ${event.stage}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Extract the top-level fields of a JSON object that have been fully received so far.
+ * `buffer` is the text streamed in up to now; any trailing incomplete value is ignored.
+ * Values are returned parsed; a field whose slice fails to parse is skipped.
+ */
+export function completedTopLevelFields(buffer: string): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  let i = buffer.indexOf('{');
+  if (i < 0) return fields;
+  i++;
+
+  while (i < buffer.length) {
+    i = skipSeparators(buffer, i);
+    if (i >= buffer.length || buffer[i] === '}') break;
+    if (buffer[i] !== '"') break;
+
+    const keyEnd = scanString(buffer, i);
+    if (keyEnd < 0) break;
+    const key = buffer.substring(i + 1, keyEnd - 1);
+
+    i = skipSeparators(buffer, keyEnd);
+    if (buffer[i] !== ':') break;
+    i = skipSeparators(buffer, i + 1);
+
+    const valueEnd = scanValue(buffer, i);
+    if (valueEnd < 0) break;
+
+    try {
+      fields[key] = JSON.parse(buffer.substring(i, valueEnd));
+    } catch {
+      // malformed value — leave it for the final parse to report
+    }
+    i = valueEnd;
+  }
+
+  return fields;
+}
+
+function skipSeparators(s: string, i: number): number {
+  while (i < s.length && /[\s,]/.test(s[i])) i++;
+  return i;
+}
+
+// Returns the index just past the closing quote, or -1 if the string is incomplete
+function scanString(s: string, i: number): number {
+  for (let j = i + 1; j < s.length; j++) {
+    if (s[j] === '\\') { j++; continue; }
+    if (s[j] === '"') return j + 1;
+  }
+  return -1;
+}
+
+// Returns the index just past a complete JSON value, or -1 if it is still streaming
+function scanValue(s: string, i: number): number {
+  if (i >= s.length) return -1;
+
+  if (s[i] === '"') return scanString(s, i);
+
+  if (s[i] === '{' || s[i] === '[') {
+    let depth = 0;
+    for (let j = i; j < s.length; j++) {
+      const c = s[j];
+      if (c === '"') {
+        const end = scanString(s, j);
+        if (end < 0) return -1;
+        j = end - 1;
+      } else if (c === '{' || c === '[') {
+        depth++;
+      } else if (c === '}' || c === ']') {
+        depth--;
+        if (depth === 0) return j + 1;
+      }
+    }
+    return -1;
+  }
+
+  // Literal (number, true, false, null) — complete once a delimiter follows it
+  for (let j = i; j < s.length; j++) {
+    if (/[\s,}\]]/.test(s[j])) return j;
+  }
+  return -1;
+}
@@ -18,6 +18,15 @@ export interface CounterSource {
   isReal: boolean;     // true if from web search, false if AI-generated
 }
 
+export type ClaimStatus = 'corroborated' | 'contested' | 'no-coverage';
+
+export interface ClaimResult {
+  text: string;                // one checkable statement from the post
+  status: ClaimStatus;
+  note?: string;               // brief explanation of the status
+  sourceIndices: number[];     // indices into AnalysisResult.counterSources
+}
+
 export interface HighlightedComment {
   author: string;
   text: string;
@@ -43,9 +52,95 @@ export interface AnalysisResult {
   confidence: number;
   counterPerspective?: string;         // articulation of an alternative viewpoint
   counterSources?: CounterSource[];    // web articles with stance labels
+  claims?: ClaimResult[];              // per-claim verification, backing the verification rating
+  linkedArticles?: Omit<LinkedArticle, 'body'>[];   // pages the post links to that were read for the analysis
+  language?: string;                   // detected language of the post (two-letter code, "und" if unknown)
+  locale?: string;                     // language the free-text fields are written in
   commentAnalysis?: CommentAnalysis;   // summary of comment section tone and perspectives
   videoAnalysis?: string;              // AI description of video content if present
   hasVideo?: boolean;                  // whether the post contains video
+  inputs?: AnalysisInputs;             // what the analysis was computed from
+  nearDuplicate?: { similarity: number };   // served from the analysis of a near-identical post (similarity 0-1)
+  provenance?: AnalysisProvenance;     // how the analysis was produced (absent on analyses cached before it existed)
+}
+
+// ============================================================
+// PROVENANCE — which stages contributed to an analysis, and what produced it
+// ============================================================
+
+export type ProvenanceStage = 'vision' | 'search' | 'links' | 'comments';
+
+export type StageStatus = 'ran' | 'skipped' | 'failed';
+
+export type StageReason =
+  | 'no-input'          // nothing to process (no images, links or comments)
+  | 'not-configured'    // no provider set up for the stage
+  | 'post-too-short'    // too little text to search for
+  | 'budget'            // skipped to stay within the spend budget
+  | 'circuit-open'      // skipped because the provider's breaker was open
+  | 'error'             // the stage threw
+  | 'no-result';        // the stage ran but found nothing usable
+
+export interface StageProvenance {
+  status: StageStatus;
+  reason?: StageReason;
+  count?: number;              // when ran: images, articles kept, linked pages or comments read
+}
+
+export interface AnalysisProvenance {
+  stages: Record<ProvenanceStage, StageProvenance>;
+  models: {
+    text: string;              // "<provider>/<model>"
+    vision?: string;           // only when the vision stage ran
+    search?: string;           // search provider, only when the search stage ran
+  };
+  promptVersion: string;       // e.g. "deep-v5"
+  fallback: boolean;           // the generic amber result: the model call or its output failed
+  analyzedAt: string;          // ISO timestamp
+  commentsAddedAt?: string;    // when comment analysis was added to a cached result
+  cache?: {                    // set when the analysis was served from cache rather than computed for this request
+    origin: 'memory' | 'redis' | 'near-duplicate' | 'in-flight';
+    cachedAt?: string;
+  };
+}
+
+// The context a deep analysis was computed from. A cached analysis only serves a
+// request whose inputs it covers; otherwise it is enriched or recomputed.
+export interface AnalysisInputs {
+  comments: number;            // comments read (the prompt takes at most 20)
+  images: number;
+  video: boolean;
+  links: number;               // linked pages offered for expansion
+  search: boolean;             // whether web search was configured
+}
+
+export interface LinkedArticle {
+  url: string;                 // final URL after redirects
+  domain: string;
+  title: string;
+  byline?: string;
+  publishedAt?: string;        // as published by the page (usually ISO)
+  body: string;                // extracted article text, truncated
+}
+
+export interface TrackRecordEvent {
+  date: string;                // ISO date
+  kind: 'correction' | 'retraction' | 'fact-check' | 'award' | 'ownership-change' | 'note';
+  note: string;
+  url?: string;                // link to the correction, fact-check, etc.
+}
+
+export interface ReputationEntry {
+  id: string;                  // outlet domain ("bbc.co.uk") or account handle ("@handle")
+  kind: 'outlet' | 'account';
+  name: string;
+  lean: string;                // e.g. "center", "left-lean", "right-lean"
+  ownership?: string;
+  transparency?: string;       // notes on funding, corrections policy, attribution practice
+  domains?: string[];          // extra domains for an outlet
+  handles?: string[];          // social accounts run by this outlet/person
+  trackRecord: TrackRecordEvent[];   // newest first
+  updatedAt: string;
 }
 
 export interface AnalyzeRequest {
@@ -56,6 +151,9 @@ export interface AnalyzeRequest {
   videoThumbnailUrl?: string;  // poster/thumbnail image URL for the video
   imageUrls?: string[];        // any image URLs found in the tweet
   comments?: string[];         // visible comment/reply texts from the post
+  linkUrls?: string[];         // outbound links in the post (e.g. t.co hrefs), expanded for deep analysis
+  language?: string;           // the post's language if the platform marks it (e.g. a tweet's lang attribute)
+  locale?: string;             // reader's preferred output language, e.g. "fr" or "pt-BR" (default English)
   depth?: 'quick' | 'deep';   // quick = traffic light only, deep = full analysis
 }
 
@@ -63,12 +161,206 @@ export interface QuickResult {
   overall: Rating;
   summary: string;             // one-liner
   confidence: number;
+  fallback?: true;             // placeholder returned when the scan failed; not a real rating
 }
 
+export interface QuickScanItem {
+  id: string;                  // caller-chosen id, echoed back as the result key
+  text: string;
+  author?: string;
+}
+
+export interface BatchAnalyzeRequest {
+  items: QuickScanItem[];
+  locale?: string;             // output language for every summary in the batch
+}
+
+export interface BatchAnalyzeResponse {
+  success: boolean;
+  results?: Record<string, QuickResult>;   // keyed by item id
+  cached?: string[];                       // ids served from the deep-analysis cache
+  overQuota?: string[];                    // ids not assessed because the daily quick quota ran out
+  degraded?: Degradation[];                // cache-only: uncached ids were not assessed
+  error?: string;
+  requestId?: string;                      // on errors; also sent as X-Request-Id
+}
+
+// Events sent by /api/analyze/stream as each stage of the deep pipeline finishes
+export type AnalysisStreamEvent =
+  | { stage: 'search'; counterSources: CounterSource[] }          // raw results, before relevance filtering
+  | { stage: 'vision'; videoAnalysis: string }
+  | { stage: 'dimensions'; overall: Rating; perspective: DimensionRating; verification: DimensionRating;
+      balance: DimensionRating; source: DimensionRating; tone: DimensionRating }
+  | { stage: 'summary'; summary: string }
+  | { stage: 'counterPerspective'; counterPerspective: string | null }
+  | { stage: 'complete'; analysis: AnalysisResult; cached: boolean; degraded?: Degradation[]; skippedStages?: SkippedStage[] }
+  | { stage: 'error'; error: string; requestId?: string };
+
+// Steps the spend governor takes as the budget runs out, in order (see budget.ts)
+//   skip-vision — images and video are not sent to the vision model
+//   skip-search — no claim extraction or web search
+//   quick-only  — deep requests are answered with a quick scan
+//   cache-only  — only cached analyses are served
+export type Degradation = 'skip-vision' | 'skip-search' | 'quick-only' | 'cache-only';
+
+// Stages left out because their upstream's circuit breaker was open (see resilience.ts).
+// 'analysis' is the text model itself: the result is the generic fallback.
+export type SkippedStage = 'vision' | 'search' | 'analysis';
+
 export interface AnalyzeResponse {
   success: boolean;
   analysis?: AnalysisResult;
-  quickResult?: QuickResult;   // returned for depth=quick
+  quickResult?: QuickResult;   // returned for depth=quick, and for depth=deep under quick-only
   error?: string;
   cached?: boolean;
+  degraded?: Degradation[];    // steps applied to this request because of the spend budget
+  skippedStages?: SkippedStage[];
+  requestId?: string;          // on errors (every error body carries it); also sent as X-Request-Id
+}
+
+export interface ReputationResponse {
+  success: boolean;
+  entry?: ReputationEntry;
+  entries?: ReputationEntry[];
+  error?: string;
+}
+
+export type DimensionKey = 'perspective' | 'verification' | 'balance' | 'source' | 'tone';
+
+export interface RatingCounts {
+  green: number;
+  amber: number;
+  red: number;
+}
+
+export type RatingTrend = 'improving' | 'stable' | 'worsening' | 'insufficient-data';
+
+// One rated post in an author's stored history
+export interface AuthorPostRecord {
+  postHash: string;
+  date: string;                // ISO timestamp of the analysis
+  depth: 'quick' | 'deep';
+  overall: Rating;
+  dimensions?: Record<DimensionKey, Rating>;   // deep analyses only
+}
+
+export interface AuthorHistory {
+  handle: string;
+  posts: AuthorPostRecord[];
+}
+
+export interface AuthorProfile {
+  handle: string;
+  postCount: number;
+  deepCount: number;           // posts with dimension ratings
+  firstSeen: string;
+  lastSeen: string;
+  overall: RatingCounts;
+  dimensions: Record<DimensionKey, RatingCounts>;
+  recent: {                    // the most recent posts only
+    postCount: number;
+    overall: RatingCounts;
+    dimensions: Record<DimensionKey, RatingCounts>;
+  };
+  trends: Record<'overall' | DimensionKey, RatingTrend>;
+  timeline: Array<Omit<AuthorPostRecord, 'postHash'>>;   // oldest first
+}
+
+export interface AuthorResponse {
+  success: boolean;
+  profile?: AuthorProfile;
+  error?: string;
+}
+
+// "This rating seems wrong" — a reader disputing one dimension or the overall signal
+export type FeedbackDimension = DimensionKey | 'overall';
+
+export interface FeedbackRequest {
+  text: string;                // post text — only its hash is stored
+  author?: string;
+  dimension: FeedbackDimension;
+  currentRating?: Rating;      // the rating the reader saw
+  suggestedRating: Rating;
+  note?: string;
+}
+
+export interface FeedbackEntry {
+  id: string;
+  postHash: string;            // same hash as the author history, so the two can be joined
+  author?: string;             // normalized handle
+  dimension: FeedbackDimension;
+  currentRating?: Rating;
+  suggestedRating: Rating;
+  note: string;
+  createdAt: string;
+}
+
+export interface FeedbackSummary {
+  total: number;
+  byDimension: Record<FeedbackDimension, {
+    count: number;
+    suggested: RatingCounts;
+    tooHarsh: number;          // reader suggested a greener rating than the one given
+    tooLenient: number;        // reader suggested a redder rating
+  }>;
+}
+
+export interface FeedbackResponse {
+  success: boolean;
+  id?: string;                 // POST /api/feedback
+  entries?: FeedbackEntry[];   // GET /api/admin/feedback
+  summary?: FeedbackSummary;
+  error?: string;
+}
+
+export type QuotaTier = 'quick' | 'deep';
+
+// Sent on analyze responses as X-Quota-Quick-Remaining, X-Quota-Deep-Remaining and X-Quota-Reset
+export interface QuotaStatus {
+  quick: { limit: number; remaining: number };
+  deep: { limit: number; remaining: number };
+  resetsAt: string;            // ISO timestamp of the next UTC midnight
+}
+
+export interface InstallResponse {
+  success: boolean;
+  installId?: string;
+  token?: string;              // send as "Authorization: Bearer <token>" on /api/analyze
+  quota?: QuotaStatus;
+  error?: string;
+}
+
+// Work not attributed to an analyze request (e.g. background jobs) is counted as 'other'
+export type UsageTier = QuotaTier | 'other';
+
+export interface UsageTotals {
+  requests: number;
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  searchCalls: number;
+  costUsd: number;             // from token and per-call prices, see usage.ts
+}
+
+export interface UsageDay {
+  day: string;                 // YYYY-MM-DD (UTC)
+  total: UsageTotals;
+  byTier: Partial<Record<UsageTier, UsageTotals>>;
+  bySource: Record<string, UsageTotals>;   // "llm:<provider>/<model>" or "search:<provider>"
+}
+
+export interface UsageResponse {
+  success: boolean;
+  from?: string;
+  to?: string;
+  total?: UsageTotals;
+  days?: UsageDay[];
+  topInstalls?: Array<{ installId: string; requests: number; costUsd: number }>;
+  error?: string;
+}
+
+export interface BudgetStatus {
+  daily: { limitUsd: number | null; spentUsd: number };      // null = no limit configured
+  monthly: { limitUsd: number | null; spentUsd: number };
+  degradations: Degradation[];
 }
@@ -0,0 +1,281 @@
+// Inkline - Cost and Token Accounting
+// Records the token usage of every LLM completion and every web search call,
+// prices it, and attributes it to the API request (install and tier) it was made for.
+// Daily aggregates live in Redis when connected (atomic increments across instances),
+// otherwise in the "usage" file collection under DATA_DIR.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { getRedisClient } from './cache';
+import { getCollection } from './store';
+import { UsageDay, UsageTier, UsageTotals } from './types';
+import { log } from './logger';
+
+// What the current API request is; set once per request, read by every recorder below
+export interface UsageContext {
+  installId?: string;
+  tier: UsageTier;
+}
+
+const context = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * Run `fn` (and everything it starts) attributed to `ctx`
+ */
+export function runWithUsage<T>(ctx: UsageContext, fn: () => T): T {
+  return context.run(ctx, fn);
+}
+
+/**
+ * Set the tier of the current request once it is known (e.g. from the request body)
+ */
+export function setUsageTier(tier: UsageTier): void {
+  const ctx = context.getStore();
+  if (ctx) ctx.tier = tier;
+}
+
+// ============================================================
+// PRICES — USD; defaults are the providers' list prices, env overrides
+// ============================================================
+
+interface TokenPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+const DEFAULT_TOKEN_PRICES: Record<string, TokenPrice> = {
+  'deepseek/deepseek-chat': { inputPerMillion: 0.27, outputPerMillion: 1.10 },
+  'qwen/qwen-vl-max': { inputPerMillion: 0.80, outputPerMillion: 3.20 }
+};
+
+const DEFAULT_SEARCH_PRICES: Record<string, number> = {
+  tavily: 0.008     // one credit per basic search
+};
+
+function envPrice(name: string): number | null {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+// Text and vision prices can be overridden separately (e.g. for a self-hosted model)
+function tokenPrice(role: 'text' | 'vision', provider: string, model: string): TokenPrice {
+  const prefix = role === 'vision' ? 'VISION' : 'LLM';
+  const fallback = DEFAULT_TOKEN_PRICES[`${provider}/${model}`] || { inputPerMillion: 0, outputPerMillion: 0 };
+  return {
+    inputPerMillion: envPrice(`${prefix}_PRICE_INPUT_PER_M`) ?? fallback.inputPerMillion,
+    outputPerMillion: envPrice(`${prefix}_PRICE_OUTPUT_PER_M`) ?? fallback.outputPerMillion
+  };
+}
+
+function searchPrice(provider: string): number {
+  return envPrice('SEARCH_PRICE_PER_CALL') ?? DEFAULT_SEARCH_PRICES[provider] ?? 0;
+}
+
+// ============================================================
+// STORAGE — flat counters per day: "<tier>|<source>|<metric>" → value
+// where source is "llm:<provider>/<model>", "search:<provider>" or "requests"
+// ============================================================
+
+interface UsageRecord {
+  id: string;                  // "<day>", "<day>:installs" (fields "<installId>|<metric>"),
+                               // or "<day|month>:spend" (field "costUsd")
+  counters: Record<string, number>;
+}
+
+const usage = getCollection<UsageRecord>('usage');
+
+// Redis keys expire after this long; file records are kept
+const RETENTION_DAYS = 400;
+
+// File writes are read-modify-write, so they are applied one at a time
+let fileQueue: Promise<void> = Promise.resolve();
+
+function today(): string {
+  return new Date().toISOString().substring(0, 10);
+}
+
+async function increment(id: string, fields: Record<string, number>): Promise<void> {
+  const redis = getRedisClient();
+  if (redis) {
+    const key = `ts:usage:${id}`;
+    const tx = redis.multi();
+    for (const [field, value] of Object.entries(fields)) tx.hincrbyfloat(key, field, value);
+    tx.expire(key, RETENTION_DAYS * 24 * 60 * 60);
+    await tx.exec();
+    return;
+  }
+
+  const run = fileQueue.then(async () => {
+    const record = (await usage.get(id)) || { id, counters: {} };
+    for (const [field, value] of Object.entries(fields)) {
+      record.counters[field] = (record.counters[field] || 0) + value;
+    }
+    await usage.set(id, record);
+  });
+  // The caller sees (and logs) a failed write; the queue itself must stay
+  // settled, or every later write would be skipped
+  fileQueue = run.catch(() => {});
+  return run;
+}
+
+async function readCounters(id: string): Promise<Record<string, number>> {
+  const redis = getRedisClient();
+  if (redis) {
+    const raw = await redis.hgetall(`ts:usage:${id}`);
+    return Object.fromEntries(Object.entries(raw).map(([k, v]) => [k, parseFloat(v)]));
+  }
+  return (await usage.get(id))?.counters || {};
+}
+
+// Usage is never worth failing a request over
+function record(source: string, metrics: Record<string, number>): void {
+  const ctx = context.getStore();
+  const tier: UsageTier = ctx?.tier || 'other';
+  const day = today();
+
+  const fields: Record<string, number> = {};
+  for (const [metric, value] of Object.entries(metrics)) fields[`${tier}|${source}|${metric}`] = value;
+
+  const writes = [increment(day, fields)];
+  if (metrics.costUsd) {
+    // Running totals for the spend budget (budget.ts), so it never sums the breakdowns
+    writes.push(increment(`${day}:spend`, { costUsd: metrics.costUsd }));
+    writes.push(increment(`${day.substring(0, 7)}:spend`, { costUsd: metrics.costUsd }));
+  }
+  if (ctx?.installId && metrics.costUsd) {
+    writes.push(increment(`${day}:installs`, { [`${ctx.installId}|costUsd`]: metrics.costUsd }));
+  }
+  Promise.all(writes).catch(error => log.error('Usage record error', { error }));
+}
+
+// ============================================================
+// RECORDERS
+// ============================================================
+
+/**
+ * Count one API request against the current tier (and install)
+ */
+export function recordRequest(): void {
+  const ctx = context.getStore();
+  const tier: UsageTier = ctx?.tier || 'other';
+  const day = today();
+  const writes = [increment(day, { [`${tier}|requests|count`]: 1 })];
+  if (ctx?.installId) writes.push(increment(`${day}:installs`, { [`${ctx.installId}|requests`]: 1 }));
+  Promise.all(writes).catch(error => log.error('Usage record error', { error }));
+}
+
+/**
+ * One LLM completion. `usage` is the provider's token count, absent for providers
+ * that report none (the call is still counted).
+ */
+export function recordCompletion(
+  role: 'text' | 'vision',
+  provider: string,
+  model: string,
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null
+): void {
+  const promptTokens = usage?.prompt_tokens || 0;
+  const completionTokens = usage?.completion_tokens || 0;
+  const price = tokenPrice(role, provider, model);
+  const costUsd = (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+  record(`llm:${provider}/${model}`, { calls: 1, promptTokens, completionTokens, costUsd });
+}
+
+/**
+ * One web search call
+ */
+export function recordSearch(provider: string): void {
+  record(`search:${provider}`, { calls: 1, costUsd: searchPrice(provider) });
+}
+
+// ============================================================
+// REPORTING
+// ============================================================
+
+/**
+ * Spend so far today and this month (UTC), in USD
+ */
+export async function getSpend(): Promise<{ day: number; month: number }> {
+  const day = today();
+  const [daily, monthly] = await Promise.all([readCounters(`${day}:spend`), readCounters(`${day.substring(0, 7)}:spend`)]);
+  return { day: daily.costUsd || 0, month: monthly.costUsd || 0 };
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, llmCalls: 0, promptTokens: 0, completionTokens: 0, searchCalls: 0, costUsd: 0 };
+}
+
+function addTotals(into: UsageTotals, from: UsageTotals): void {
+  (Object.keys(into) as Array<keyof UsageTotals>).forEach(k => { into[k] += from[k]; });
+}
+
+function roundCost(totals: UsageTotals): UsageTotals {
+  return { ...totals, costUsd: Math.round(totals.costUsd * 1_000_000) / 1_000_000 };
+}
+
+function summarizeDay(day: string, counters: Record<string, number>): UsageDay {
+  const result: UsageDay = { day, total: emptyTotals(), byTier: {}, bySource: {} };
+
+  for (const [field, value] of Object.entries(counters)) {
+    const [tier, source, metric] = field.split('|') as [UsageTier, string, string];
+    const tierTotals = result.byTier[tier] || (result.byTier[tier] = emptyTotals());
+    const sourceTotals = source === 'requests' ? null : (result.bySource[source] || (result.bySource[source] = emptyTotals()));
+
+    const delta = emptyTotals();
+    if (source === 'requests') delta.requests = value;
+    else if (metric === 'calls') delta[source.startsWith('search:') ? 'searchCalls' : 'llmCalls'] = value;
+    else if (metric === 'promptTokens' || metric === 'completionTokens' || metric === 'costUsd') delta[metric] = value;
+
+    addTotals(tierTotals, delta);
+    if (sourceTotals) addTotals(sourceTotals, delta);
+    addTotals(result.total, delta);
+  }
+
+  result.total = roundCost(result.total);
+  for (const tier of Object.keys(result.byTier) as UsageTier[]) result.byTier[tier] = roundCost(result.byTier[tier]!);
+  for (const source of Object.keys(result.bySource)) result.bySource[source] = roundCost(result.bySource[source]);
+  return result;
+}
+
+/**
+ * Daily usage from `from` to `to` (inclusive, YYYY-MM-DD), oldest first,
+ * with the installs that cost the most over the range
+ */
+export async function getUsageReport(from: string, to: string, topInstalls: number = 10): Promise<{
+  days: UsageDay[];
+  total: UsageTotals;
+  topInstalls: Array<{ installId: string; requests: number; costUsd: number }>;
+}> {
+  const days: string[] = [];
+  for (let d = new Date(`${from}T00:00:00Z`); d <= new Date(`${to}T00:00:00Z`); d.setUTCDate(d.getUTCDate() + 1)) {
+    days.push(d.toISOString().substring(0, 10));
+  }
+
+  const [dayCounters, installCounters] = await Promise.all([
+    Promise.all(days.map(readCounters)),
+    Promise.all(days.map(day => readCounters(`${day}:installs`)))
+  ]);
+
+  const report = days.map((day, i) => summarizeDay(day, dayCounters[i]));
+  const total = emptyTotals();
+  report.forEach(d => addTotals(total, d.total));
+
+  const installs = new Map<string, { installId: string; requests: number; costUsd: number }>();
+  for (const counters of installCounters) {
+    for (const [field, value] of Object.entries(counters)) {
+      const [installId, metric] = field.split('|');
+      const entry = installs.get(installId) || { installId, requests: 0, costUsd: 0 };
+      if (metric === 'requests') entry.requests += value;
+      if (metric === 'costUsd') entry.costUsd += value;
+      installs.set(installId, entry);
+    }
+  }
+
+  return {
+    days: report,
+    total: roundCost(total),
+    topInstalls: Array.from(installs.values())
+      .map(i => ({ ...i, costUsd: Math.round(i.costUsd * 1_000_000) / 1_000_000 }))
+      .sort((a, b) => b.costUsd - a.costUsd)
+      .slice(0, topInstalls)
+  };
+}
@@ -1,21 +1,11 @@
 // Inkline - Qwen VL Vision Analysis (Alibaba Cloud DashScope)
 // Used for multimodal analysis of images/video thumbnails in tweets
 
-import OpenAI from 'openai';
-
-// Lazy-initialize Qwen VL client
-let _qwen: OpenAI | null = null;
-function getQwenClient(): OpenAI {
-  if (!_qwen) {
-    _qwen = new OpenAI({
-      apiKey: process.env.QWEN_API_KEY || '',
-      baseURL: 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1'
-    });
-  }
-  return _qwen;
-}
+// Model calls go through the vision provider in llm.ts (Qwen VL by default)
 
-const VISION_MODEL = 'qwen-vl-max';
+import { getVisionProvider, ContentPart } from './llm';
+import { outputLanguageInstruction, truncateText, DEFAULT_LOCALE } from './language';
+import { log } from './logger';
 
 // System prompt for visual analysis in the context of media literacy
 const VISION_SYSTEM_PROMPT = `You are a visual media analyst for Inkline, a media literacy tool. Your job is to objectively describe what you see in images or video thumbnails from social media posts.
@@ -29,6 +19,7 @@ Focus on:
 6. Whether the visual seems to support, contradict, or be unrelated to the accompanying tweet text
 
 Be factual and objective. Do not speculate beyond what is visually evident. If something is unclear, say so.
+Transcribe visible text in its original language; if it is not in the language you are answering in, add a brief translation.
 Keep your response concise (2-4 sentences for simple images, up to a short paragraph for complex scenes).`;
 
 /**
@@ -38,24 +29,25 @@ Keep your response concise (2-4 sentences for simple images, up to a short parag
 export async function analyzeImage(
   imageUrl: string,
   tweetText: string = '',
-  author: string = 'Unknown'
+  author: string = 'Unknown',
+  locale: string = DEFAULT_LOCALE
 ): Promise<string> {
   try {
-    console.log('[Inkline] Qwen VL: analyzing image...');
+    log.info('Vision: analyzing image', { provider: getVisionProvider().name });
 
-    const userContent: Array<{ type: string; text?: string; image_url?: { url: string } }> = [
+    const userContent: ContentPart[] = [
       {
         type: 'image_url',
         image_url: { url: imageUrl }
       },
       {
         type: 'text',
-        text: `This image accompanies a social media post by @${author}. The post text reads: "${tweetText.substring(0, 500)}"\n\nDescribe what you see in this image and how it relates to the post text.`
+        text: `This image accompanies a social media post by @${author}. The post text reads: "${truncateText(tweetText, 500)}"\n\nDescribe what you see in this image and how it relates to the post text. ${outputLanguageInstruction(locale)}`.trim()
       }
     ];
 
-    const response = await getQwenClient().chat.completions.create({
-      model: VISION_MODEL,
+    const content = await getVisionProvider().complete({
+      purpose: 'vision',
       messages: [
         {
           role: 'system',
@@ -63,21 +55,20 @@ export async function analyzeImage(
         },
         {
           role: 'user',
-          content: userContent as any
+          content: userContent
         }
       ],
-      max_tokens: 500
+      maxTokens: 500
     });
 
-    const content = response.choices[0]?.message?.content;
     if (!content) {
       throw new Error('Empty response from Qwen VL');
     }
 
-    console.log('[Inkline] Qwen VL: analysis complete');
+    log.info('Vision: analysis complete');
     return content.trim();
   } catch (error) {
-    console.error('[Inkline] Qwen VL error:', error);
+    log.error('Vision error', { error });
     return '';
   }
 }
@@ -89,20 +80,21 @@ export async function analyzeImage(
 export async function analyzeMultipleImages(
   imageUrls: string[],
   tweetText: string = '',
-  author: string = 'Unknown'
+  author: string = 'Unknown',
+  locale: string = DEFAULT_LOCALE
 ): Promise<string> {
   if (imageUrls.length === 0) return '';
 
   // For a single image, use the simple path
   if (imageUrls.length === 1) {
-    return analyzeImage(imageUrls[0], tweetText, author);
+    return analyzeImage(imageUrls[0], tweetText, author, locale);
   }
 
   try {
-    console.log(`[Inkline] Qwen VL: analyzing ${imageUrls.length} images...`);
+    log.info('Vision: analyzing images', { provider: getVisionProvider().name, images: imageUrls.length });
 
     // Build content array with all images + text prompt
-    const userContent: Array<{ type: string; text?: string; image_url?: { url: string } }> = [];
+    const userContent: ContentPart[] = [];
 
     for (const url of imageUrls.slice(0, 4)) { // Max 4 images
       userContent.push({
@@ -113,11 +105,11 @@ export async function analyzeMultipleImages(
 
     userContent.push({
       type: 'text',
-      text: `These ${imageUrls.length} images accompany a social media post by @${author}. The post text reads: "${tweetText.substring(0, 500)}"\n\nDescribe what you see across these images and how they relate to the post text.`
+      text: `These ${imageUrls.length} images accompany a social media post by @${author}. The post text reads: "${truncateText(tweetText, 500)}"\n\nDescribe what you see across these images and how they relate to the post text. ${outputLanguageInstruction(locale)}`.trim()
     });
 
-    const response = await getQwenClient().chat.completions.create({
-      model: VISION_MODEL,
+    const content = await getVisionProvider().complete({
+      purpose: 'vision',
       messages: [
         {
           role: 'system',
@@ -125,28 +117,27 @@ export async function analyzeMultipleImages(
         },
         {
           role: 'user',
-          content: userContent as any
+          content: userContent
         }
       ],
-      max_tokens: 600
+      maxTokens: 600
     });
 
-    const content = response.choices[0]?.message?.content;
     if (!content) {
       throw new Error('Empty response from Qwen VL');
     }
 
-    console.log('[Inkline] Qwen VL: multi-image analysis complete');
+    log.info('Vision: multi-image analysis complete');
     return content.trim();
   } catch (error) {
-    console.error('[Inkline] Qwen VL multi-image error:', error);
+    log.error('Vision multi-image error', { error });
     return '';
   }
 }
 
 /**
- * Check if Qwen VL is configured and available
+ * Check if the vision provider is configured and available
  */
 export function isVisionAvailable(): boolean {
-  return !!(process.env.QWEN_API_KEY && process.env.QWEN_API_KEY.length > 5);
+  return getVisionProvider().isAvailable();
 }
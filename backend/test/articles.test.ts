@@ -0,0 +1,64 @@
+// Inkline - Link Expansion SSRF Guard Tests
+// Links come from posts, so the fetcher must refuse every address that reaches
+// this host, its network or cloud metadata — however the address is written.
+
+import { describe, expect, it } from 'vitest';
+import { assertPublicUrl, isPrivateAddress } from '../src/articles';
+
+const PRIVATE_ADDRESSES = [
+  '0.0.0.0', '10.1.2.3', '100.64.0.1', '127.0.0.1', '169.254.169.254', '172.16.0.1', '172.31.255.255',
+  '192.0.0.8', '192.168.1.1', '198.18.0.1', '198.19.255.255', '224.0.0.1', '239.255.255.250',
+  '240.0.0.1', '255.255.255.255',
+  '::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'fe80::1%eth0', 'ff02::1',
+  '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '0:0:0:0:0:ffff:a00:1',
+  '::7f00:1', '64:ff9b::7f00:1', '64:ff9b::808:808'
+];
+
+const PUBLIC_ADDRESSES = ['8.8.8.8', '1.1.1.1', '172.32.0.1', '100.128.0.1', '2606:4700::1111', '::ffff:808:808'];
+
+// IP literals never go through DNS, so the URL check alone must stop them
+const PRIVATE_LITERAL_URLS = [
+  'http://127.0.0.1/',
+  'http://[::1]/',
+  'http://[::ffff:127.0.0.1]/',
+  'http://[::ffff:7f00:1]/',
+  'http://[::ffff:169.254.169.254]/latest/meta-data/',
+  'http://[0:0:0:0:0:ffff:10.0.0.1]/',
+  'http://[::127.0.0.1]/',
+  'http://[64:ff9b::169.254.169.254]/',
+  'http://2130706433/',
+  'http://0x7f.1/',
+  'https://[fe80::1]/'
+];
+
+describe('isPrivateAddress', () => {
+  it.each(PRIVATE_ADDRESSES)('blocks %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(PUBLIC_ADDRESSES)('allows %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it('treats anything that is not an IP address as private', () => {
+    expect(isPrivateAddress('example.com')).toBe(true);
+    expect(isPrivateAddress('')).toBe(true);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it.each(PRIVATE_LITERAL_URLS)('refuses %s', url => {
+    expect(() => assertPublicUrl(new URL(url))).toThrow(/private address/);
+  });
+
+  it('refuses other protocols and ports', () => {
+    expect(() => assertPublicUrl(new URL('file:///etc/passwd'))).toThrow(/protocol/);
+    expect(() => assertPublicUrl(new URL('http://example.com:6379/'))).toThrow(/port/);
+  });
+
+  it('leaves host names to the resolver and allows public literals', () => {
+    expect(() => assertPublicUrl(new URL('https://example.com/article'))).not.toThrow();
+    expect(() => assertPublicUrl(new URL('http://[2606:4700::1111]/'))).not.toThrow();
+    expect(() => assertPublicUrl(new URL('http://8.8.8.8/'))).not.toThrow();
+  });
+});
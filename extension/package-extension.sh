@@ -16,7 +16,9 @@ mkdir -p ../dist/think-social-extension
 # Copy necessary files
 cp manifest.json ../dist/think-social-extension/
 cp popup.html ../dist/think-social-extension/
+cp options.html ../dist/think-social-extension/
 cp styles.css ../dist/think-social-extension/
+cp shadow.css ../dist/think-social-extension/
 cp -r dist ../dist/think-social-extension/
 cp -r icons ../dist/think-social-extension/
 
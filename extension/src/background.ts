@@ -2,6 +2,8 @@
 // Handles API communication and caching
 // Supports two-tier analysis: quick scan (automatic) + deep analysis (on hover)
 
+import { loadSettings, onSettingsChanged, Settings } from './settings.js';
+
 interface CounterSource {
   outlet: string;
   lean: string;
@@ -38,24 +40,67 @@ interface AnalysisResult {
   commentAnalysis?: CommentAnalysis;
   videoAnalysis?: string;
   hasVideo?: boolean;
+  inputs?: AnalysisInputs;
+  provenance?: { fallback: boolean };   // fallback: the analysis failed and this is a placeholder
+  nearDuplicate?: { similarity?: number };   // similarity 0-1; absent for matches from the local cache
+}
+
+// What the backend computed an analysis from
+interface AnalysisInputs {
+  comments: number;
+  images: number;
+  video: boolean;
+  links: number;
+  search: boolean;
 }
 
 interface QuickResult {
   overall: 'green' | 'amber' | 'red';
   summary: string;
   confidence: number;
+  fallback?: true;   // the scan failed; a placeholder, not a rating
 }
 
 interface CacheEntry {
   analysis: AnalysisResult;
   timestamp: number;
+  textHash?: string;           // hash of the exact text; the key is of the normalized text
 }
 
-// API endpoint - update this when deployed
-const API_URL = 'http://localhost:3001/api/analyze';
+const QUICK_BATCH_WINDOW = 150; // ms to wait for more posts before sending a batch
+const QUICK_BATCH_MAX = 25;     // matches the backend's per-request item limit
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
-const RATE_LIMIT_KEY = 'inkline_daily_count';
-const DAILY_LIMIT = 200; // Raised for development; set to 50 for production
+const INSTALL_TOKEN_KEY = 'inkline_install_token';
+const QUOTA_KEY = 'inkline_quota';
+const DAILY_LIMIT_MESSAGE = 'Daily limit reached. Upgrade to Pro for unlimited.';
+// The backend steps down as its spend budget runs out (quick-only, then cache-only)
+const DEEP_PAUSED_MESSAGE = 'In-depth analysis is paused for now to keep costs down. Only the quick rating is available.';
+const BUDGET_PAUSED_MESSAGE = 'Analysis is paused for now to keep costs down. Please try again later.';
+const PROMPT_COMMENT_LIMIT = 20; // the backend reads at most this many comments
+
+// ============================================================
+// SETTINGS — backend URL, token and panel language from the options page
+// ============================================================
+
+let settingsLoad: Promise<Settings> | null = null;
+
+function getSettings(): Promise<Settings> {
+  if (!settingsLoad) settingsLoad = loadSettings();
+  return settingsLoad;
+}
+
+onSettingsChanged(async (settings, previous) => {
+  settingsLoad = Promise.resolve(settings);
+  // An install token and its quota belong to the backend that issued them
+  if (settings.backendUrl !== previous.backendUrl) {
+    await chrome.storage.local.remove([INSTALL_TOKEN_KEY, QUOTA_KEY]);
+  }
+});
+
+// URL of a backend API route, e.g. apiUrl('/analyze/batch')
+async function apiUrl(route: string): Promise<string> {
+  return `${(await getSettings()).backendUrl}/api${route}`;
+}
 
 // Simple hash function for cache keys
 function hashText(text: string): string {
@@ -68,14 +113,45 @@ function hashText(text: string): string {
   return 'ts_' + Math.abs(hash).toString(36);
 }
 
+// Language the backend writes summaries and reasons in — the one chosen on the
+// options page, else the browser's UI language
+async function outputLocale(): Promise<string> {
+  return (await getSettings()).panelLanguage || chrome.i18n.getUILanguage();
+}
+
+// Same normalization as the backend's near-duplicate matching (fingerprint.ts):
+// retweets and copies with other links, mentions or emoji share a cache entry
+function normalizePostText(text: string): string {
+  return text
+    .replace(/^RT @[\w]+:\s*/i, '')
+    .replace(/https?:\/\/\S+|www\.\S+/gi, ' ')
+    .replace(/@[\p{L}\p{N}_]+/gu, ' ')
+    .replace(/\p{Extended_Pictographic}|[\u200d\ufe0f]|[\u{1f3fb}-\u{1f3ff}]/gu, ' ')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Analyses are cached per output language
+async function cacheKey(text: string): Promise<string> {
+  return `${hashText(normalizePostText(text))}_${await outputLocale()}`;
+}
+
 // Get cached deep analysis from local storage
 async function getCachedAnalysis(text: string): Promise<AnalysisResult | null> {
-  const key = hashText(text);
+  const key = await cacheKey(text);
   const result = await chrome.storage.local.get(key);
   
   if (result[key]) {
     const entry: CacheEntry = result[key];
     if (Date.now() - entry.timestamp < CACHE_TTL) {
+      // Cached for a variant of this post: flag it like a backend near-duplicate match.
+      // The backend's similarity compares simhash fingerprints, which are not computed
+      // here, so none is reported.
+      if (entry.textHash && entry.textHash !== hashText(text) && !entry.analysis.nearDuplicate) {
+        return { ...entry.analysis, nearDuplicate: {} };
+      }
       return entry.analysis;
     } else {
       await chrome.storage.local.remove(key);
@@ -84,68 +160,182 @@ async function getCachedAnalysis(text: string): Promise<AnalysisResult | null> {
   return null;
 }
 
-// Save deep analysis to local cache
+// Whether a cached analysis was computed from at least what this request has.
+// If not, the request goes to the backend, which enriches or recomputes it.
+function coversRequest(
+  analysis: AnalysisResult,
+  request: { comments?: string[]; imageUrls?: string[]; hasVideo?: boolean; linkUrls?: string[] }
+): boolean {
+  const inputs = analysis.inputs;
+  if (!inputs) return false;
+  return Math.min((request.comments || []).length, PROMPT_COMMENT_LIMIT) <= inputs.comments &&
+    (request.imageUrls || []).length <= inputs.images &&
+    (!request.hasVideo || inputs.video) &&
+    (request.linkUrls || []).length <= inputs.links;
+}
+
+// Save deep analysis to local cache. Placeholders from a failed analysis are not
+// kept (quick scans would show them for a day), nor analyses without the inputs
+// coversRequest needs to decide whether they can be reused.
 async function cacheAnalysis(text: string, analysis: AnalysisResult): Promise<void> {
-  const key = hashText(text);
-  await chrome.storage.local.set({ [key]: { analysis, timestamp: Date.now() } });
+  if (analysis.provenance?.fallback || !analysis.inputs) return;
+  const key = await cacheKey(text);
+  await chrome.storage.local.set({ [key]: { analysis, timestamp: Date.now(), textHash: hashText(text) } });
 }
 
-// Rate limiting
-async function checkRateLimit(): Promise<boolean> {
-  const today = new Date().toDateString();
-  const result = await chrome.storage.local.get(RATE_LIMIT_KEY);
-  
-  if (result[RATE_LIMIT_KEY]) {
-    const { date, count } = result[RATE_LIMIT_KEY];
-    if (date === today) {
-      if (count >= DAILY_LIMIT) return false;
-      await chrome.storage.local.set({ [RATE_LIMIT_KEY]: { date: today, count: count + 1 } });
-    } else {
-      await chrome.storage.local.set({ [RATE_LIMIT_KEY]: { date: today, count: 1 } });
-    }
-  } else {
-    await chrome.storage.local.set({ [RATE_LIMIT_KEY]: { date: today, count: 1 } });
+// ============================================================
+// INSTALL TOKEN AND QUOTA — the backend enforces the daily limits
+// ============================================================
+
+interface QuotaSnapshot {
+  quick: number;               // remaining today, as last reported by the backend
+  deep: number;
+  resetsAt: string;
+}
+
+let registering: Promise<string> | null = null;
+
+// The token this install registered for; registers on first use
+async function getInstallToken(): Promise<string> {
+  const stored = await chrome.storage.local.get(INSTALL_TOKEN_KEY);
+  if (stored[INSTALL_TOKEN_KEY]) return stored[INSTALL_TOKEN_KEY];
+
+  // Parallel requests on a fresh install share one registration
+  if (!registering) {
+    registering = (async () => {
+      const response = await fetch(await apiUrl('/install'), { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.success || !data.token) throw new Error(data.error || `API error: ${response.status}`);
+      await chrome.storage.local.set({ [INSTALL_TOKEN_KEY]: data.token });
+      if (data.quota) {
+        await chrome.storage.local.set({
+          [QUOTA_KEY]: { quick: data.quota.quick.remaining, deep: data.quota.deep.remaining, resetsAt: data.quota.resetsAt }
+        });
+      }
+      return data.token as string;
+    })().finally(() => { registering = null; });
   }
-  return true;
+  return registering;
+}
+
+async function recordQuota(response: Response): Promise<void> {
+  const quick = response.headers.get('X-Quota-Quick-Remaining');
+  const deep = response.headers.get('X-Quota-Deep-Remaining');
+  const resetsAt = response.headers.get('X-Quota-Reset');
+  if (quick === null || deep === null || !resetsAt) return;
+  const snapshot: QuotaSnapshot = { quick: Number(quick), deep: Number(deep), resetsAt };
+  await chrome.storage.local.set({ [QUOTA_KEY]: snapshot });
 }
 
-async function getRemainingRequests(): Promise<number> {
-  const today = new Date().toDateString();
-  const result = await chrome.storage.local.get(RATE_LIMIT_KEY);
-  if (result[RATE_LIMIT_KEY]) {
-    const { date, count } = result[RATE_LIMIT_KEY];
-    if (date === today) return Math.max(0, DAILY_LIMIT - count);
+// Fetch an analyze route with the registered install token, or the one set on the
+// options page. A rejected install token (e.g. the backend's secret changed) is
+// replaced once by registering again.
+async function analyzeFetch(route: string, init: RequestInit): Promise<Response> {
+  const { authToken } = await getSettings();
+  const url = await apiUrl(route);
+  const send = async () => fetch(url, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string>), 'Authorization': `Bearer ${authToken || await getInstallToken()}` }
+  });
+
+  let response = await send();
+  if (response.status === 401 && !authToken) {
+    await chrome.storage.local.remove(INSTALL_TOKEN_KEY);
+    response = await send();
   }
-  return DAILY_LIMIT;
+  await recordQuota(response);
+  if (response.status === 429) throw new Error(DAILY_LIMIT_MESSAGE);
+  if (response.status === 503) throw new Error(BUDGET_PAUSED_MESSAGE);
+  return response;
+}
+
+// A deep request answered with only a quick result was stepped down for the budget
+function deepAnalysisOf(data: { success?: boolean; analysis?: AnalysisResult; quickResult?: QuickResult; error?: string }): AnalysisResult {
+  if (!data.success) throw new Error(data.error || 'Deep analysis failed');
+  if (data.analysis) return data.analysis;
+  throw new Error(data.quickResult ? DEEP_PAUSED_MESSAGE : 'Deep analysis failed');
+}
+
+// Quick scans left today, or null before the backend has reported any
+async function getRemainingRequests(): Promise<number | null> {
+  const result = await chrome.storage.local.get(QUOTA_KEY);
+  const snapshot: QuotaSnapshot | undefined = result[QUOTA_KEY];
+  if (!snapshot) return null;
+  // Past the reset the backend's count starts over; the limit itself is not known here
+  if (Date.now() >= new Date(snapshot.resetsAt).getTime()) return null;
+  return snapshot.quick;
 }
 
 // ============================================================
 // API CALLS
 // ============================================================
 
-// Tier 1: Quick scan — just traffic light + one-liner
-async function quickScanAPI(text: string, author: string): Promise<QuickResult> {
-  const response = await fetch(API_URL, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ text, author, depth: 'quick' })
+// Tier 1: Quick scan — just traffic light + one-liner.
+// Posts arriving within QUICK_BATCH_WINDOW are coalesced into one batch request,
+// so a fast-scrolling feed costs one HTTP call per page rather than per post.
+interface PendingQuickScan {
+  postId: string;
+  text: string;
+  author: string;
+  resolve: (result: QuickResult) => void;
+  reject: (error: Error) => void;
+}
+
+let quickQueue: PendingQuickScan[] = [];
+let quickFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function quickScanAPI(postId: string, text: string, author: string): Promise<QuickResult> {
+  return new Promise((resolve, reject) => {
+    quickQueue.push({ postId, text, author, resolve, reject });
+
+    if (quickQueue.length >= QUICK_BATCH_MAX) {
+      flushQuickQueue();
+    } else if (!quickFlushTimer) {
+      quickFlushTimer = setTimeout(flushQuickQueue, QUICK_BATCH_WINDOW);
+    }
   });
+}
 
-  if (!response.ok) throw new Error(`API error: ${response.status}`);
-  const data = await response.json();
-  if (!data.success) throw new Error(data.error || 'Quick scan failed');
-
-  // If backend returned a cached deep result, extract quick info from it
-  if (data.quickResult) return data.quickResult;
-  if (data.analysis) {
-    return {
-      overall: data.analysis.overall,
-      summary: data.analysis.summary.substring(0, 80),
-      confidence: data.analysis.confidence
-    };
+async function flushQuickQueue(): Promise<void> {
+  if (quickFlushTimer) {
+    clearTimeout(quickFlushTimer);
+    quickFlushTimer = null;
+  }
+
+  const batch = quickQueue.splice(0, QUICK_BATCH_MAX);
+  if (quickQueue.length > 0) {
+    quickFlushTimer = setTimeout(flushQuickQueue, QUICK_BATCH_WINDOW);
   }
+  if (batch.length === 0) return;
 
-  throw new Error('No result returned');
+  try {
+    // The same post can be queued twice if it re-renders — send it once
+    const items = new Map<string, { id: string; text: string; author: string }>();
+    for (const p of batch) items.set(p.postId, { id: p.postId, text: p.text, author: p.author });
+
+    const response = await analyzeFetch('/analyze/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items: Array.from(items.values()), locale: await outputLocale() })
+    });
+
+    if (!response.ok) throw new Error(`API error: ${response.status}`);
+    const data = await response.json();
+    if (!data.success) throw new Error(data.error || 'Quick scan failed');
+
+    const results: Record<string, QuickResult> = data.results || {};
+    const overQuota: string[] = data.overQuota || [];
+    const cacheOnly = (data.degraded || []).includes('cache-only');
+    for (const p of batch) {
+      const result = results[p.postId];
+      if (result) p.resolve(result);
+      else if (overQuota.includes(p.postId)) p.reject(new Error(DAILY_LIMIT_MESSAGE));
+      else p.reject(new Error(cacheOnly ? BUDGET_PAUSED_MESSAGE : 'No result returned'));
+    }
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error('Quick scan failed');
+    for (const p of batch) p.reject(err);
+  }
 }
 
 // Tier 2: Deep analysis — full pipeline
@@ -158,16 +348,82 @@ async function deepAnalyzeAPI(
   imageUrls: string[] = [],
   comments: string[] = []
 ): Promise<AnalysisResult> {
-  const response = await fetch(API_URL, {
+  const response = await analyzeFetch('/analyze', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ text, author, hasVideo, videoDescription, videoThumbnailUrl, imageUrls, comments, depth: 'deep' })
+    body: JSON.stringify({ text, author, hasVideo, videoDescription, videoThumbnailUrl, imageUrls, comments, locale: await outputLocale(), depth: 'deep' })
   });
 
+  if (!response.ok) throw new Error(`API error: ${response.status}`);
+  return deepAnalysisOf(await response.json());
+}
+
+// Tier 2, streamed: the backend sends one Server-Sent Event per finished stage.
+// Calls onEvent for every stage event and resolves with the final analysis.
+async function deepAnalyzeStreamAPI(
+  payload: Record<string, unknown>,
+  onEvent: (event: { stage: string }) => void
+): Promise<AnalysisResult> {
+  const response = await analyzeFetch('/analyze/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+    body: JSON.stringify({ ...payload, locale: await outputLocale(), depth: 'deep' })
+  });
+
+  if (!response.ok || !response.body) throw new Error(`API error: ${response.status}`);
+  // Without a deep run to stream, the backend answers with a plain JSON response
+  if ((response.headers.get('Content-Type') || '').includes('application/json')) {
+    return deepAnalysisOf(await response.json());
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; keep any trailing partial event
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const raw of events) {
+      const data = raw.split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n');
+      if (!data) continue;
+
+      const event = JSON.parse(data);
+      if (event.stage === 'complete') return event.analysis;
+      if (event.stage === 'error') throw new Error(event.error || 'Deep analysis failed');
+      onEvent(event);
+    }
+  }
+
+  throw new Error('Stream ended before analysis completed');
+}
+
+// Author history — aggregate ratings for an account (null if none recorded yet)
+async function authorProfileAPI(author: string): Promise<unknown | null> {
+  const response = await fetch(await apiUrl(`/authors/${encodeURIComponent(author)}`));
+  if (response.status === 404) return null;
   if (!response.ok) throw new Error(`API error: ${response.status}`);
   const data = await response.json();
-  if (!data.success) throw new Error(data.error || 'Deep analysis failed');
-  return data.analysis;
+  return data.success ? data.profile : null;
+}
+
+// Reader feedback on a rating ("this rating seems wrong")
+async function feedbackAPI(payload: Record<string, unknown>): Promise<void> {
+  const response = await fetch(await apiUrl('/feedback'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) throw new Error(data.error || `API error: ${response.status}`);
 }
 
 // ============================================================
@@ -190,12 +446,7 @@ async function handleQuickScan(
       };
     }
 
-    const allowed = await checkRateLimit();
-    if (!allowed) {
-      return { quickResult: null, error: 'Daily limit reached. Upgrade to Pro for unlimited.' };
-    }
-
-    const quickResult = await quickScanAPI(text, author);
+    const quickResult = await quickScanAPI(postId, text, author);
     return { quickResult, cached: false };
   } catch (error) {
     console.error('[Inkline] Quick scan error:', error);
@@ -215,18 +466,11 @@ async function handleDeepAnalysis(
   comments: string[] = []
 ): Promise<{ analysis: AnalysisResult | null; error?: string; cached?: boolean }> {
   try {
-    // Check cache — but skip if we have comments and cached result lacks commentAnalysis
     const cached = await getCachedAnalysis(text);
-    if (cached) {
-      const hasCommentData = cached.commentAnalysis && cached.commentAnalysis.overallTone;
-      if (comments.length === 0 || hasCommentData) {
-        return { analysis: cached, cached: true };
-      }
-      // We have comments now but cached result doesn't have comment analysis — re-analyze
-      console.log('[Inkline] Cache hit but missing commentAnalysis, re-analyzing with comments');
+    if (cached && coversRequest(cached, { comments, imageUrls, hasVideo })) {
+      return { analysis: cached, cached: true };
     }
 
-    // No rate limit check for deep — it was already counted during quick scan
     const analysis = await deepAnalyzeAPI(text, author, hasVideo, videoDescription, videoThumbnailUrl, imageUrls, comments);
     await cacheAnalysis(text, analysis);
     return { analysis, cached: false };
@@ -236,10 +480,60 @@ async function handleDeepAnalysis(
   }
 }
 
+// Deep analysis on hover, streamed — relays each stage to the content script over a port
+async function handleDeepAnalysisStream(port: chrome.runtime.Port, payload: {
+  postId: string;
+  text: string;
+  author: string;
+  hasVideo?: boolean;
+  videoDescription?: string;
+  videoThumbnailUrl?: string;
+  imageUrls?: string[];
+  comments?: string[];
+  linkUrls?: string[];
+  language?: string;
+}): Promise<void> {
+  const { postId, text } = payload;
+  const comments = payload.comments || [];
+
+  let connected = true;
+  port.onDisconnect.addListener(() => { connected = false; });
+  const post = (message: unknown) => {
+    if (connected) port.postMessage(message);
+  };
+
+  try {
+    const cached = await getCachedAnalysis(text);
+    if (cached && coversRequest(cached, { ...payload, comments })) {
+      post({ type: 'ANALYSIS_RESULT', payload: { postId, analysis: cached, cached: true } });
+      return;
+    }
+
+    const analysis = await deepAnalyzeStreamAPI(
+      { ...payload, comments },
+      event => post({ type: 'DEEP_STREAM_EVENT', payload: { postId, event } })
+    );
+    await cacheAnalysis(text, analysis);
+    post({ type: 'ANALYSIS_RESULT', payload: { postId, analysis, cached: false } });
+  } catch (error) {
+    console.error('[Inkline] Deep analysis stream error:', error);
+    post({ type: 'ANALYSIS_RESULT', payload: { postId, analysis: null, error: error instanceof Error ? error.message : 'Unknown error' } });
+  }
+}
+
 // ============================================================
 // MESSAGE LISTENER
 // ============================================================
 
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== 'DEEP_ANALYZE_STREAM') return;
+  port.onMessage.addListener((message) => {
+    if (message.type === 'DEEP_ANALYZE') {
+      handleDeepAnalysisStream(port, message.payload);
+    }
+  });
+});
+
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   // Tier 1: Quick scan (automatic, on post detection)
   if (message.type === 'QUICK_SCAN') {
@@ -270,6 +564,27 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  // Account context for the panel
+  if (message.type === 'GET_AUTHOR_HISTORY') {
+    authorProfileAPI(message.payload.author)
+      .then(profile => sendResponse({ profile }))
+      .catch(error => {
+        console.error('[Inkline] Author history error:', error);
+        sendResponse({ profile: null });
+      });
+    return true;
+  }
+
+  if (message.type === 'SUBMIT_FEEDBACK') {
+    feedbackAPI(message.payload)
+      .then(() => sendResponse({ type: 'FEEDBACK_RESULT', payload: { success: true } }))
+      .catch(error => {
+        console.error('[Inkline] Feedback error:', error);
+        sendResponse({ type: 'FEEDBACK_RESULT', payload: { success: false, error: error instanceof Error ? error.message : 'Unknown error' } });
+      });
+    return true;
+  }
+
   if (message.type === 'GET_REMAINING') {
     getRemainingRequests().then(remaining => {
       sendResponse({ remaining });
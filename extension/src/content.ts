@@ -19,6 +19,13 @@ interface DimensionRating {
   reason?: string;
 }
 
+interface ClaimResult {
+  text: string;
+  status: 'corroborated' | 'contested' | 'no-coverage';
+  note?: string;
+  sourceIndices: number[];   // indices into counterSources
+}
+
 interface AnalysisResult {
   overall: 'green' | 'amber' | 'red';
   perspective: DimensionRating;
@@ -30,15 +37,37 @@ interface AnalysisResult {
   confidence: number;
   counterPerspective?: string;
   counterSources?: CounterSource[];
+  claims?: ClaimResult[];
   commentAnalysis?: CommentAnalysis;
   videoAnalysis?: string;
   hasVideo?: boolean;
+  nearDuplicate?: { similarity?: number };   // similarity 0-1; absent for matches from the local cache
+  provenance?: AnalysisProvenance;
+}
+
+type ProvenanceStage = 'vision' | 'search' | 'links' | 'comments';
+
+interface StageProvenance {
+  status: 'ran' | 'skipped' | 'failed';
+  reason?: string;
+  count?: number;
+}
+
+// How an analysis was produced (see backend types.ts)
+interface AnalysisProvenance {
+  stages: Record<ProvenanceStage, StageProvenance>;
+  models: { text: string; vision?: string; search?: string };
+  promptVersion: string;
+  fallback: boolean;
+  analyzedAt: string;
+  cache?: { origin: string; cachedAt?: string };
 }
 
 interface QuickResult {
   overall: 'green' | 'amber' | 'red';
   summary: string;
   confidence: number;
+  fallback?: true;   // the scan failed; a placeholder, not a rating
 }
 
 interface MediaInfo {
@@ -55,6 +84,21 @@ interface CommentAnalysis {
   agreementLevel: string;
 }
 
+type RatingCounts = Record<'green' | 'amber' | 'red', number>;
+type DimensionKey = 'perspective' | 'verification' | 'balance' | 'source' | 'tone';
+
+// Aggregate ratings for a post's author (from /api/authors/:handle)
+interface AuthorProfile {
+  handle: string;
+  postCount: number;
+  recent: {
+    postCount: number;
+    overall: RatingCounts;
+    dimensions: Record<DimensionKey, RatingCounts>;
+  };
+  trends: Record<'overall' | DimensionKey, 'improving' | 'stable' | 'worsening' | 'insufficient-data'>;
+}
+
 // Store post metadata so we can do deep analysis on hover without re-extracting
 interface PostMeta {
   postId: string;
@@ -62,13 +106,44 @@ interface PostMeta {
   author: string;
   media: MediaInfo;
   comments: string[];
+  links: string[];                          // outbound article links, expanded by the backend
+  language: string;                         // platform language tag ('' if the platform has none)
   quickResult?: QuickResult;
   deepResult?: AnalysisResult;
+  partialResult?: Partial<AnalysisResult>;  // deep analysis sections received so far (streaming)
+  authorProfile?: AuthorProfile | null;     // undefined = not fetched yet, null = no history
   deepPending?: boolean;
 }
 
+// Stage events relayed from the backend's /api/analyze/stream
+type DeepStreamEvent =
+  | { stage: 'search'; counterSources: CounterSource[] }
+  | { stage: 'vision'; videoAnalysis: string }
+  | { stage: 'dimensions'; overall: 'green' | 'amber' | 'red'; perspective: DimensionRating; verification: DimensionRating;
+      balance: DimensionRating; source: DimensionRating; tone: DimensionRating }
+  | { stage: 'summary'; summary: string }
+  | { stage: 'counterPerspective'; counterPerspective: string | null };
+
 type Platform = 'twitter' | 'facebook' | 'instagram' | 'unknown';
 
+// The options-page settings this script uses. Content scripts cannot import
+// modules, so this mirrors Settings and DEFAULT_SETTINGS in settings.ts.
+interface ContentSettings {
+  platforms: Record<Exclude<Platform, 'unknown'>, boolean>;
+  autoDeep: 'off' | 'red' | 'amber-red';
+  hoverDelayMs: number;
+}
+
+const SETTINGS_KEY = 'inkline_settings';
+
+const DEFAULT_CONTENT_SETTINGS: ContentSettings = {
+  platforms: { twitter: true, facebook: true, instagram: true },
+  autoDeep: 'amber-red',
+  hoverDelayMs: 300
+};
+
+const MAX_HOVER_DELAY_MS = 3000;
+
 // ============================================================
 // STATE
 // ============================================================
@@ -78,6 +153,7 @@ const pendingPosts = new Set<string>();
 const postMetaMap = new Map<string, PostMeta>();
 let activePanel: HTMLElement | null = null;
 let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+let settings: ContentSettings = DEFAULT_CONTENT_SETTINGS;
 
 const COLORS = {
   green: '#10B981',
@@ -626,6 +702,14 @@ function getPostAuthor(el: Element): string {
   }
 }
 
+// Language the platform tagged the post with, if any — the backend detects it otherwise
+function getPostLanguage(el: Element): string {
+  switch (PLATFORM) {
+    case 'twitter': return el.querySelector('[data-testid="tweetText"][lang]')?.getAttribute('lang') || '';
+    default: return '';
+  }
+}
+
 function detectMedia(el: Element): MediaInfo {
   switch (PLATFORM) {
     case 'twitter': return twitterDetectMedia(el);
@@ -635,6 +719,38 @@ function detectMedia(el: Element): MediaInfo {
   }
 }
 
+// ============================================================
+// LINK EXTRACTORS — outbound article links in a post
+// ============================================================
+
+function twitterExtractLinks(el: Element): string[] {
+  // Links in the tweet text and link cards all point at t.co; the backend resolves them
+  return Array.from(el.querySelectorAll('[data-testid="tweetText"] a[href^="https://t.co/"], [data-testid="card.wrapper"] a[href^="https://t.co/"]'))
+    .map(a => a.getAttribute('href') || '');
+}
+
+function facebookExtractLinks(el: Element): string[] {
+  // Outbound links go through l.facebook.com/l.php?u=<target>
+  return Array.from(el.querySelectorAll('a[href*="l.facebook.com/l.php"]'))
+    .map(a => {
+      try {
+        return new URL(a.getAttribute('href') || '').searchParams.get('u') || '';
+      } catch {
+        return '';
+      }
+    });
+}
+
+function extractLinks(el: Element): string[] {
+  let links: string[];
+  switch (PLATFORM) {
+    case 'twitter': links = twitterExtractLinks(el); break;
+    case 'facebook': links = facebookExtractLinks(el); break;
+    default: links = [];   // Instagram captions have no clickable links
+  }
+  return Array.from(new Set(links.filter(href => /^https?:\/\//.test(href)))).slice(0, 3);
+}
+
 // ============================================================
 // COMMENT EXTRACTORS — grab visible comments/replies near a post
 // ============================================================
@@ -849,59 +965,414 @@ function extractYouTubeId(url: string): string | null {
   return null;
 }
 
+// ============================================================
+// SAFE RENDERING — panel markup is built with the `html` tag, which escapes every
+// interpolated value. Post text, model output, search results and comments are
+// all untrusted; only markup made by `html` itself is inserted as is.
+// ============================================================
+
+const SAFE_HTML: unique symbol = Symbol('SafeHtml');
+
+// Symbol-keyed, so no JSON from the backend can pass for one
+interface SafeHtml {
+  readonly [SAFE_HTML]: string;
+}
+
+type HtmlValue = SafeHtml | string | number | false | null | undefined | HtmlValue[];
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderValue(value: HtmlValue): string {
+  if (value === null || value === undefined || value === false) return '';
+  if (Array.isArray(value)) return value.map(renderValue).join('');
+  if (typeof value === 'object' && SAFE_HTML in value) return value[SAFE_HTML];
+  return escapeHtml(String(value));
+}
+
+// Tagged template: arrays are joined, false/null/undefined render nothing
+function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  let markup = strings[0];
+  values.forEach((value, i) => {
+    markup += renderValue(value) + strings[i + 1];
+  });
+  return { [SAFE_HTML]: markup };
+}
+
+function setHtml(el: Element, content: SafeHtml): void {
+  el.innerHTML = content[SAFE_HTML];
+}
+
+// Only absolute http(s) URLs become links — javascript:, data: and relative URLs give null
+function safeUrl(url: unknown): string | null {
+  if (typeof url !== 'string') return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================
+// SHADOW DOM — badges and panels live in closed shadow roots, so the host
+// page's CSS cannot restyle them and our class names cannot collide with theirs.
+// The page only sees <inkline-badge data-post-id> and <inkline-panel data-for-post>.
+// ============================================================
+
+// One stylesheet (shadow.css) adopted by every shadow root
+const shadowStyles = new CSSStyleSheet();
+
+async function loadShadowStyles(): Promise<void> {
+  try {
+    const response = await fetch(chrome.runtime.getURL('shadow.css'));
+    await shadowStyles.replace(await response.text());
+  } catch (err) {
+    console.error('[Inkline] Could not load panel styles:', err);
+  }
+}
+
+// Host element → the badge or panel inside its (closed) shadow root
+const shadowContent = new WeakMap<Element, HTMLElement>();
+
+function mountInShadow(tag: 'inkline-badge' | 'inkline-panel', content: HTMLElement): HTMLElement {
+  const host = document.createElement(tag);
+  const root = host.attachShadow({ mode: 'closed' });
+  root.adoptedStyleSheets = [shadowStyles];
+  root.appendChild(content);
+  shadowContent.set(host, content);
+  return host;
+}
+
+// The host element a badge or panel is mounted in — what gets placed in the page
+function shadowHost(content: HTMLElement): HTMLElement {
+  const root = content.getRootNode();
+  return root instanceof ShadowRoot ? root.host as HTMLElement : content;
+}
+
+function findBadge(postId: string): HTMLElement | null {
+  const host = document.querySelector(`inkline-badge[data-post-id="${CSS.escape(postId)}"]`);
+  return host ? shadowContent.get(host) || null : null;
+}
+
+function findPanel(postId: string): HTMLElement | null {
+  const host = document.querySelector(`inkline-panel[data-for-post="${CSS.escape(postId)}"]`);
+  return host ? shadowContent.get(host) || null : null;
+}
+
+// Put a newly built panel in the page for a post
+function attachPanel(panel: HTMLElement, postId: string): void {
+  const host = shadowHost(panel);
+  host.setAttribute('data-for-post', postId);
+  document.body.appendChild(host);
+}
+
 // ============================================================
 // SHARED UI — Badge, Panel, Communication (platform-agnostic)
 // Two-tier: quick scan sets badge color, hover triggers deep analysis
 // ============================================================
 
-function createPanel(analysis: AnalysisResult): HTMLElement {
+function createPanel(analysis: AnalysisResult, authorProfile?: AuthorProfile | null): HTMLElement {
+  return buildPanel(analysis, false, authorProfile);
+}
+
+// Panel for a deep analysis that is still streaming in — finished sections are
+// filled in, the rest show a pending line until the next event arrives
+function createPartialPanel(partial: Partial<AnalysisResult>): HTMLElement {
+  return buildPanel(partial, true);
+}
+
+const DIMENSION_NAMES: Record<DimensionKey, string> = {
+  perspective: 'Political Standpoint',
+  verification: 'How Factual?',
+  balance: 'Balance',
+  source: 'Source History',
+  tone: 'Tone'
+};
+
+// Minimum recent posts before we say anything about an account
+const AUTHOR_CONTEXT_MIN_POSTS = 3;
+
+// One-line account context, e.g. "@x's recent posts were mostly amber on Tone"
+function renderAuthorContext(profile?: AuthorProfile | null): SafeHtml {
+  if (!profile || profile.recent.postCount < AUTHOR_CONTEXT_MIN_POSTS) return html``;
+
+  const total = (c: RatingCounts) => c.green + c.amber + c.red;
+  const dominant = (c: RatingCounts): 'green' | 'amber' | 'red' =>
+    c.red >= c.amber && c.red >= c.green ? 'red' : c.amber >= c.green ? 'amber' : 'green';
+
+  // Call out the dimension where the account is most often amber/red
+  let line = '';
+  let worstShare = 0.5;
+  for (const dim of Object.keys(DIMENSION_NAMES) as DimensionKey[]) {
+    const counts = profile.recent.dimensions[dim];
+    if (total(counts) < AUTHOR_CONTEXT_MIN_POSTS) continue;
+    const share = (counts.amber + counts.red) / total(counts);
+    if (share >= worstShare) {
+      worstShare = share;
+      const rating = counts.red > counts.amber ? 'red' : 'amber';
+      line = `recent posts were mostly ${rating} on ${DIMENSION_NAMES[dim]}`;
+    }
+  }
+  if (!line) line = `recent posts were mostly ${dominant(profile.recent.overall)} overall`;
+
+  const trend = profile.trends.overall;
+  const trendNote = trend === 'improving' ? ' — trending greener' : trend === 'worsening' ? ' — trending redder' : '';
+
+  return html`
+    <div class="ts-panel-divider"></div>
+    <div class="ts-author-context">
+      <div class="ts-author-title">👤 ACCOUNT CONTEXT:</div>
+      <div class="ts-author-text">@${profile.handle}'s ${line}${trendNote}.</div>
+      <div class="ts-author-sub">Based on ${profile.recent.postCount} recent posts seen by Inkline.</div>
+    </div>`;
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+const STAGE_REASONS: Record<string, string> = {
+  'not-configured': 'not set up',
+  'post-too-short': 'post too short',
+  'budget': 'paused to save costs',
+  'circuit-open': 'service unavailable',
+  'error': 'failed',
+  'no-result': 'nothing found'
+};
+
+// Footer line listing what the analysis drew on, e.g. "Based on: text + 4 articles + image".
+// The tooltip names the skipped stages and the model behind the result.
+function renderBasis(analysis: Partial<AnalysisResult>): SafeHtml {
+  const provenance = analysis.provenance;
+  if (!provenance) return html``;
+  if (provenance.fallback) {
+    return html`<div class="ts-basis ts-basis-fallback">Generic result — the analysis could not be completed.</div>`;
+  }
+
+  const { vision, search, links, comments } = provenance.stages;
+  const parts = ['text'];
+  if (search.status === 'ran' && search.count) parts.push(plural(search.count, 'article'));
+  if (links.status === 'ran' && links.count) parts.push(plural(links.count, 'linked page'));
+  if (vision.status === 'ran') parts.push(analysis.hasVideo ? 'video' : vision.count && vision.count > 1 ? plural(vision.count, 'image') : 'image');
+  if (comments.status === 'ran' && comments.count) parts.push(plural(comments.count, 'comment'));
+
+  const notes = (Object.keys(provenance.stages) as ProvenanceStage[])
+    .filter(stage => provenance.stages[stage].status !== 'ran' && provenance.stages[stage].reason !== 'no-input')
+    .map(stage => `${stage}: ${STAGE_REASONS[provenance.stages[stage].reason || ''] || 'skipped'}`);
+  const title = [...notes, `model: ${provenance.models.text} (${provenance.promptVersion})`].join('\n');
+
+  return html`<div class="ts-basis" title="${title}">Based on: ${parts.join(' + ')}</div>`;
+}
+
+// Per-claim checks listed under "How Factual?" — links point into counterSources
+function renderClaims(analysis: Partial<AnalysisResult>): SafeHtml {
+  if (!analysis.claims || analysis.claims.length === 0) return html``;
+
+  const statusLabels: Record<string, string> = {
+    'corroborated': '✓ Corroborated',
+    'contested': '⚠ Contested',
+    'no-coverage': '? No coverage found'
+  };
+  const sources = analysis.counterSources || [];
+  // Sources without a usable link are left out of the claim's list
+  const linkedSources = (indices: number[]) => indices
+    .filter(i => sources[i] && safeUrl(sources[i].url))
+    .map(i => ({ outlet: sources[i].outlet, url: safeUrl(sources[i].url)! }));
+
+  return html`
+      <div class="ts-claims">
+        ${analysis.claims.map(claim => html`
+        <div class="ts-claim" data-status="${claim.status}">
+          <span class="ts-claim-status">${statusLabels[claim.status] || claim.status}</span>
+          <span class="ts-claim-text">${claim.text}</span>
+          ${claim.note ? html`<div class="ts-claim-note">${claim.note}</div>` : ''}
+          ${linkedSources(claim.sourceIndices).length > 0 ? html`
+          <div class="ts-claim-sources">
+            ${linkedSources(claim.sourceIndices).map(src => html`
+            <a class="ts-claim-source" href="${src.url}" target="_blank" rel="noopener noreferrer">${src.outlet}</a>`)}
+          </div>` : ''}
+        </div>`)}
+      </div>`;
+}
+
+// ============================================================
+// FEEDBACK — "this rating seems wrong" on a dimension row or the overall signal
+// ============================================================
+
+type FeedbackDimension = DimensionKey | 'overall';
+
+const FEEDBACK_NOTE_MAX = 500;
+
+function feedbackButton(dimension: FeedbackDimension, rating: 'green' | 'amber' | 'red'): SafeHtml {
+  return html`<button class="ts-feedback-toggle" data-dimension="${dimension}" data-rating="${rating}" title="This rating seems wrong?">⚑</button>`;
+}
+
+function wireFeedback(panel: HTMLElement): void {
+  panel.querySelectorAll<HTMLElement>('.ts-feedback-toggle').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const row = btn.closest('.ts-dimension, .ts-panel-signal');
+      if (!row) return;
+
+      // Toggle: clicking the flag again closes its form; only one form open at a time
+      const open = row.nextElementSibling;
+      if (open?.classList.contains('ts-feedback-form')) {
+        open.remove();
+        return;
+      }
+      panel.querySelectorAll('.ts-feedback-form').forEach(f => f.remove());
+      row.after(createFeedbackForm(panel, btn));
+    });
+  });
+}
+
+function createFeedbackForm(panel: HTMLElement, toggle: HTMLElement): HTMLElement {
+  const dimension = toggle.dataset.dimension as FeedbackDimension;
+  const currentRating = toggle.dataset.rating as 'green' | 'amber' | 'red';
+  const ratingEmoji = { green: '🟢', amber: '🟡', red: '🔴' };
+  const name = dimension === 'overall' ? 'the overall signal' : DIMENSION_NAMES[dimension];
+
+  const form = document.createElement('div');
+  form.className = 'ts-feedback-form';
+  setHtml(form, html`
+    <div class="ts-feedback-title">What should ${name} be?</div>
+    <div class="ts-feedback-ratings">
+      ${(['green', 'amber', 'red'] as const).map(r => html`
+      <button class="ts-feedback-rating" data-rating="${r}" ${r === currentRating ? html`disabled` : ''}>${ratingEmoji[r]} ${r}</button>`)}
+    </div>
+    <textarea class="ts-feedback-note" maxlength="${FEEDBACK_NOTE_MAX}" placeholder="What did we get wrong? (optional)"></textarea>
+    <div class="ts-feedback-actions">
+      <span class="ts-feedback-status"></span>
+      <button class="ts-feedback-cancel">Cancel</button>
+      <button class="ts-feedback-send" disabled>Send</button>
+    </div>`);
+
+  let suggestedRating: 'green' | 'amber' | 'red' | null = null;
+  const sendBtn = form.querySelector('.ts-feedback-send') as HTMLButtonElement;
+  const status = form.querySelector('.ts-feedback-status') as HTMLElement;
+
+  form.querySelectorAll<HTMLButtonElement>('.ts-feedback-rating').forEach(btn => {
+    btn.addEventListener('click', () => {
+      form.querySelectorAll('.ts-feedback-rating').forEach(b => b.classList.remove('ts-feedback-selected'));
+      btn.classList.add('ts-feedback-selected');
+      suggestedRating = btn.dataset.rating as 'green' | 'amber' | 'red';
+      sendBtn.disabled = false;
+    });
+  });
+
+  form.querySelector('.ts-feedback-cancel')?.addEventListener('click', () => form.remove());
+
+  sendBtn.addEventListener('click', () => {
+    const meta = postMetaMap.get(shadowHost(panel).getAttribute('data-for-post') || '');
+    if (!meta || !suggestedRating) return;
+
+    sendBtn.disabled = true;
+    status.textContent = 'Sending...';
+    chrome.runtime.sendMessage({
+      type: 'SUBMIT_FEEDBACK',
+      payload: {
+        text: meta.text,
+        author: meta.author,
+        dimension,
+        currentRating,
+        suggestedRating,
+        note: (form.querySelector('.ts-feedback-note') as HTMLTextAreaElement).value.trim()
+      }
+    }, (response) => {
+      if (chrome.runtime.lastError || !response?.payload?.success) {
+        status.textContent = 'Could not send — please try again.';
+        sendBtn.disabled = false;
+        return;
+      }
+      setHtml(form, html`<div class="ts-feedback-thanks">Thanks — your feedback helps us improve Inkline.</div>`);
+      toggle.classList.add('ts-feedback-sent');
+      setTimeout(() => form.remove(), 2500);
+    });
+  });
+
+  // Keep the platform's keyboard shortcuts from firing while typing a note
+  form.addEventListener('keydown', (e) => e.stopPropagation());
+  form.addEventListener('click', (e) => e.stopPropagation());
+
+  return form;
+}
+
+function pendingSection(label: string): SafeHtml {
+  return html`
+    <div class="ts-panel-pending">
+      <div class="think-social-spinner"></div>
+      <span>${label}</span>
+    </div>`;
+}
+
+function buildPanel(analysis: Partial<AnalysisResult>, streaming: boolean, authorProfile?: AuthorProfile | null): HTMLElement {
   const panel = document.createElement('div');
   panel.className = 'think-social-panel';
   
   const ratingEmoji = { green: '🟢', amber: '🟡', red: '🔴' };
+  const dimensionsReady = !!(analysis.overall && analysis.perspective && analysis.verification
+    && analysis.balance && analysis.source && analysis.tone);
   
-  panel.innerHTML = `
+  setHtml(panel, html`
     <div class="ts-panel-header">
       <span class="ts-panel-icon">🔍</span>
       <span class="ts-panel-title">UNDER THE HOOD</span>
       <button class="ts-panel-close">&times;</button>
     </div>
+    ${analysis.nearDuplicate ? html`
+    <div class="ts-panel-notice" title="Reused from a post with the same wording">
+      Analysis from a near-identical post${analysis.nearDuplicate.similarity !== undefined
+        ? ` (${Math.round(analysis.nearDuplicate.similarity * 100)}% similar)`
+        : ''}
+    </div>
+    ` : ''}
+    ${dimensionsReady ? html`
     <div class="ts-panel-signal">
       <span class="ts-signal-label">INITIAL ASSESSMENT:</span>
       <span class="ts-signal-value" data-rating="${analysis.overall}">
-        ${ratingEmoji[analysis.overall]} ${RATING_LABELS[analysis.overall]}
+        ${ratingEmoji[analysis.overall!]} ${RATING_LABELS[analysis.overall!]}
       </span>
+      ${streaming ? '' : feedbackButton('overall', analysis.overall!)}
     </div>
     <div class="ts-panel-divider"></div>
     <div class="ts-panel-section-title">ANALYSIS DIMENSIONS: <span class="ts-dim-hint">(tap any row to see why)</span></div>
     <div class="ts-panel-dimensions">
-      ${[
-        { name: 'Political Standpoint', dim: analysis.perspective },
-        { name: 'How Factual?', dim: analysis.verification },
-        { name: 'Balance', dim: analysis.balance },
-        { name: 'Source History', dim: analysis.source },
-        { name: 'Tone', dim: analysis.tone }
-      ].map(d => `
+      ${(Object.keys(DIMENSION_NAMES) as DimensionKey[]).map(key => {
+        const dim: DimensionRating = analysis[key]!;
+        return html`
       <div class="ts-dimension ts-dimension-expandable">
-        <span class="ts-dim-name">${d.name}</span>
-        <span class="ts-dim-rating">${ratingEmoji[d.dim.rating]}</span>
-        <span class="ts-dim-label">${d.dim.label}</span>
-        ${d.dim.reason ? `<div class="ts-dim-reason">${d.dim.reason}</div>` : ''}
-      </div>`).join('')}
+        <span class="ts-dim-name">${DIMENSION_NAMES[key]}</span>
+        <span class="ts-dim-rating">${ratingEmoji[dim.rating]}</span>
+        <span class="ts-dim-label">${dim.label}</span>
+        ${streaming ? html`<span></span>` : feedbackButton(key, dim.rating)}
+        ${dim.reason ? html`<div class="ts-dim-reason">${dim.reason}</div>` : ''}
+      </div>
+      ${key === 'verification' ? renderClaims(analysis) : ''}`;
+      })}
     </div>
+    ` : pendingSection('Rating the five dimensions...')}
+    ${renderAuthorContext(authorProfile)}
     <div class="ts-panel-divider"></div>
+    ${analysis.summary ? html`
     <div class="ts-panel-summary">
       <div class="ts-summary-title">CONTEXTUAL SUMMARY:</div>
       <div class="ts-summary-text">${analysis.summary}</div>
     </div>
-    ${analysis.counterPerspective ? `
+    ` : pendingSection('Writing the contextual summary...')}
+    ${analysis.counterPerspective ? html`
     <div class="ts-panel-divider"></div>
     <div class="ts-counter-perspective">
       <div class="ts-counter-perspective-title">💡 ALTERNATIVE VIEWPOINT:</div>
       <div class="ts-counter-perspective-text">${analysis.counterPerspective}</div>
     </div>
     ` : ''}
-    ${analysis.counterSources && analysis.counterSources.length > 0 ? `
+    ${streaming && !analysis.counterSources ? pendingSection('Searching the web for coverage...') : ''}
+    ${analysis.counterSources && analysis.counterSources.length > 0 ? html`
     <div class="ts-panel-divider"></div>
     <div class="ts-counter-sources">
       <div class="ts-counter-title">🌐 FURTHER READING:</div>
@@ -909,26 +1380,32 @@ function createPanel(analysis: AnalysisResult): HTMLElement {
       ${analysis.counterSources.map(src => {
         const stanceLabel = src.stance === 'counter' ? '↔ Counter' : src.stance === 'supporting' ? '→ Supporting' : '• Neutral';
         const stanceClass = src.stance === 'counter' ? 'ts-stance-counter' : src.stance === 'supporting' ? 'ts-stance-supporting' : 'ts-stance-neutral';
-        return `
-        <a class="ts-counter-item ts-counter-link" href="${src.url}" target="_blank" rel="noopener noreferrer">
+        const content = html`
           <div class="ts-counter-outlet">
             <span class="ts-counter-name">${src.outlet}</span>
+            ${src.lean ? html`<span class="ts-counter-lean">${src.lean}</span>` : ''}
             <span class="ts-counter-stance ${stanceClass}">${stanceLabel}</span>
           </div>
           <div class="ts-counter-headline">${src.headline}</div>
-          ${src.snippet ? `<div class="ts-counter-snippet">${src.snippet}</div>` : ''}
-        </a>`;
-      }).join('')}
+          ${src.snippet ? html`<div class="ts-counter-snippet">${src.snippet}</div>` : ''}`;
+        // A source without an http(s) URL is listed but not linked
+        const url = safeUrl(src.url);
+        return url ? html`
+        <a class="ts-counter-item ts-counter-link" href="${url}" target="_blank" rel="noopener noreferrer">${content}
+        </a>` : html`
+        <div class="ts-counter-item">${content}
+        </div>`;
+      })}
     </div>
     ` : ''}
-    ${analysis.hasVideo && analysis.videoAnalysis ? `
+    ${analysis.hasVideo && analysis.videoAnalysis ? html`
     <div class="ts-panel-divider"></div>
     <div class="ts-video-analysis">
       <div class="ts-video-title">🎬 VIDEO CONTEXT:</div>
       <div class="ts-video-text">${analysis.videoAnalysis}</div>
     </div>
     ` : ''}
-    ${analysis.commentAnalysis ? `
+    ${analysis.commentAnalysis ? html`
     <div class="ts-panel-divider"></div>
     <div class="ts-comment-climate">
       <div class="ts-comment-title">💬 COMMENT CLIMATE:</div>
@@ -946,11 +1423,11 @@ function createPanel(analysis: AnalysisResult): HTMLElement {
       </div>
       <div class="ts-comment-tone">${analysis.commentAnalysis.overallTone}</div>
       <div class="ts-comment-lean">${analysis.commentAnalysis.leaningSummary}</div>
-      ${analysis.commentAnalysis.highlights && analysis.commentAnalysis.highlights.length > 0 ? `
+      ${analysis.commentAnalysis.highlights && analysis.commentAnalysis.highlights.length > 0 ? html`
       <div class="ts-comment-highlights-title">Worth reading:</div>
       ${analysis.commentAnalysis.highlights.map(h => {
         const sentimentIcon: Record<string, string> = { agree: '👍', disagree: '👎', nuanced: '🤔', neutral: '➖' };
-        return `
+        return html`
         <div class="ts-comment-highlight" data-sentiment="${h.sentiment}">
           <div class="ts-highlight-header">
             <span class="ts-highlight-icon">${sentimentIcon[h.sentiment] || '💬'}</span>
@@ -960,7 +1437,7 @@ function createPanel(analysis: AnalysisResult): HTMLElement {
           <div class="ts-highlight-text">"${h.text}"</div>
           <div class="ts-highlight-reason">${h.reason}</div>
         </div>`;
-      }).join('')}
+      })}
       ` : ''}
     </div>
     ` : ''}
@@ -968,10 +1445,11 @@ function createPanel(analysis: AnalysisResult): HTMLElement {
       AI-generated analysis — may contain errors. Inkline provides context, not verdicts. Always verify independently.
     </div>
     <div class="ts-panel-footer">
-      <span class="ts-confidence">Confidence: ${Math.round(analysis.confidence * 100)}%</span>
+      <span class="ts-confidence">${typeof analysis.confidence === 'number' ? `Confidence: ${Math.round(analysis.confidence * 100)}%` : 'Analysis in progress...'}</span>
       <span class="ts-branding">🔍 Inkline</span>
+      ${renderBasis(analysis)}
     </div>
-  `;
+  `);
   
   const closeBtn = panel.querySelector('.ts-panel-close');
   closeBtn?.addEventListener('click', (e) => {
@@ -997,6 +1475,9 @@ function createPanel(analysis: AnalysisResult): HTMLElement {
       dim.classList.toggle('ts-dim-expanded');
     });
   });
+
+  wireFeedback(panel);
+  mountInShadow('inkline-panel', panel);
   
   return panel;
 }
@@ -1005,7 +1486,7 @@ function createPanel(analysis: AnalysisResult): HTMLElement {
 function createLoadingPanel(): HTMLElement {
   const panel = document.createElement('div');
   panel.className = 'think-social-panel';
-  panel.innerHTML = `
+  setHtml(panel, html`
     <div class="ts-panel-header">
       <span class="ts-panel-icon">🔍</span>
       <span class="ts-panel-title">UNDER THE HOOD</span>
@@ -1019,7 +1500,7 @@ function createLoadingPanel(): HTMLElement {
     <div class="ts-panel-disclaimer">
       AI-generated analysis — may contain errors. Inkline provides context, not verdicts. Always verify independently.
     </div>
-  `;
+  `);
 
   const closeBtn = panel.querySelector('.ts-panel-close');
   closeBtn?.addEventListener('click', (e) => {
@@ -1031,6 +1512,7 @@ function createLoadingPanel(): HTMLElement {
   panel.addEventListener('wheel', (e) => { e.stopPropagation(); }, { passive: false });
   panel.addEventListener('touchmove', (e) => { e.stopPropagation(); }, { passive: false });
   panel.addEventListener('click', (e) => { e.stopPropagation(); });
+  mountInShadow('inkline-panel', panel);
 
   return panel;
 }
@@ -1042,21 +1524,22 @@ function createLoadingBadge(): HTMLElement {
   const spinner = document.createElement('div');
   spinner.className = 'think-social-spinner';
   badge.appendChild(spinner);
-  return badge;
+  // The host is returned: it is what the post article holds
+  return mountInShadow('inkline-badge', badge);
 }
 
 function injectBadge(article: Element, postId: string): HTMLElement | null {
-  if (article.querySelector('.think-social-badge')) return null;
+  if (article.querySelector('inkline-badge')) return null;
   (article as HTMLElement).classList.add('think-social-positioned');
-  const badge = createLoadingBadge();
-  badge.setAttribute('data-post-id', postId);
-  article.appendChild(badge);
-  return badge;
+  const host = createLoadingBadge();
+  host.setAttribute('data-post-id', postId);
+  article.appendChild(host);
+  return host;
 }
 
 // Set badge to show quick-scan traffic light (no panel yet — panel comes on hover)
 function setBadgeQuick(postId: string, quickResult: { overall: 'green' | 'amber' | 'red'; summary: string } | null, error?: string): void {
-  const badge = document.querySelector(`.think-social-badge[data-post-id="${postId}"]`);
+  const badge = findBadge(postId);
   if (!badge) return;
 
   badge.classList.remove('think-social-loading');
@@ -1113,10 +1596,10 @@ function setupBadgeInteraction(badgeEl: HTMLElement, postId: string): void {
     const meta = postMetaMap.get(postId);
     if (!meta || meta.deepResult || meta.deepPending) return;
 
-    // Start deep analysis after a brief hover (300ms to avoid accidental triggers)
+    // Start deep analysis after a brief hover (avoids accidental triggers; set on the options page)
     hoverTimer = setTimeout(() => {
       triggerDeepAnalysis(postId);
-    }, 300);
+    }, settings.hoverDelayMs);
   });
 
   badgeEl.addEventListener('mouseleave', () => {
@@ -1135,7 +1618,7 @@ function setupBadgeInteraction(badgeEl: HTMLElement, postId: string): void {
     if (!meta) return;
 
     // Remove any existing panel for this post
-    const existingPanel = document.querySelector(`[data-for-post="${postId}"]`);
+    const existingPanel = findPanel(postId);
     if (existingPanel) {
       const isVisible = existingPanel.classList.contains('ts-panel-visible');
       if (isVisible) {
@@ -1147,11 +1630,10 @@ function setupBadgeInteraction(badgeEl: HTMLElement, postId: string): void {
 
     // If deep result is ready, show the full panel
     if (meta.deepResult) {
-      let panel = document.querySelector(`[data-for-post="${postId}"]`) as HTMLElement;
+      let panel = findPanel(postId);
       if (!panel) {
-        panel = createPanel(meta.deepResult);
-        panel.setAttribute('data-for-post', postId);
-        document.body.appendChild(panel);
+        panel = createPanel(meta.deepResult, meta.authorProfile);
+        attachPanel(panel, postId);
       }
       showPanel(panel, badgeEl);
       return;
@@ -1162,12 +1644,16 @@ function setupBadgeInteraction(badgeEl: HTMLElement, postId: string): void {
       triggerDeepAnalysis(postId);
     }
 
-    // Show loading panel
-    let loadingPanel = document.querySelector(`[data-for-post="${postId}"]`) as HTMLElement;
-    if (!loadingPanel) {
+    // Show loading panel — or the sections streamed in so far
+    let loadingPanel = findPanel(postId);
+    const partial = meta.partialResult;
+    if (partial && Object.keys(partial).length > 0) {
+      if (loadingPanel) shadowHost(loadingPanel).remove();
+      loadingPanel = createPartialPanel(partial);
+      attachPanel(loadingPanel, postId);
+    } else if (!loadingPanel) {
       loadingPanel = createLoadingPanel();
-      loadingPanel.setAttribute('data-for-post', postId);
-      document.body.appendChild(loadingPanel);
+      attachPanel(loadingPanel, postId);
     }
     showPanel(loadingPanel, badgeEl);
   });
@@ -1181,8 +1667,8 @@ function triggerDeepAnalysis(postId: string): void {
   // Re-extract comments fresh from the DOM — they may have loaded since
   // the initial post detection (e.g. user scrolled into thread, or platform
   // lazy-loaded comments)
-  const badge = document.querySelector(`.think-social-badge[data-post-id="${postId}"]`);
-  const article = badge?.closest('.think-social-positioned');
+  const badge = findBadge(postId);
+  const article = badge ? shadowHost(badge).closest('.think-social-positioned') : null;
   if (article) {
     const freshComments = extractComments(article);
     if (freshComments.length > meta.comments.length) {
@@ -1192,62 +1678,143 @@ function triggerDeepAnalysis(postId: string): void {
   }
 
   meta.deepPending = true;
+  meta.partialResult = {};
+  fetchAuthorProfile(meta);
   console.log(`[Inkline] Triggering deep analysis for ${postId} (${meta.comments.length} comments)`);
 
-  chrome.runtime.sendMessage(
-    {
-      type: 'DEEP_ANALYZE',
-      payload: {
-        postId,
-        text: meta.text,
-        author: meta.author,
-        hasVideo: meta.media.hasVideo,
-        videoDescription: meta.media.videoDescription,
-        videoThumbnailUrl: meta.media.videoThumbnailUrl,
-        imageUrls: meta.media.imageUrls,
-        comments: meta.comments
+  // Stream over a port so each finished stage can be shown before the whole pipeline is done
+  const port = chrome.runtime.connect({ name: 'DEEP_ANALYZE_STREAM' });
+
+  port.onMessage.addListener((message) => {
+    if (message.type === 'DEEP_STREAM_EVENT') {
+      applyStreamEvent(meta, message.payload.event);
+      return;
+    }
+
+    if (message.type !== 'ANALYSIS_RESULT') return;
+    port.disconnect();
+    meta.deepPending = false;
+    meta.partialResult = undefined;
+
+    if (message.payload?.analysis) {
+      meta.deepResult = message.payload.analysis;
+
+      // Update badge color if deep analysis changed the rating
+      const badge = findBadge(postId);
+      if (badge && meta.deepResult) {
+        badge.setAttribute('data-rating', meta.deepResult.overall);
+        badge.title = RATING_LABELS[meta.deepResult.overall];
+        const light = badge.querySelector('.think-social-light') as HTMLElement;
+        if (light) light.style.backgroundColor = COLORS[meta.deepResult.overall];
       }
-    },
-    (response) => {
-      meta.deepPending = false;
 
-      if (response?.payload?.analysis) {
-        meta.deepResult = response.payload.analysis;
+      replacePanel(postId, createPanel(meta.deepResult!, meta.authorProfile));
+    } else if (message.payload?.error) {
+      console.error(`[Inkline] Deep analysis failed for ${postId}:`, message.payload.error);
+    }
+  });
 
-        // Update badge color if deep analysis changed the rating
-        const badge = document.querySelector(`.think-social-badge[data-post-id="${postId}"]`) as HTMLElement;
-        if (badge && meta.deepResult) {
-          badge.setAttribute('data-rating', meta.deepResult.overall);
-          badge.title = RATING_LABELS[meta.deepResult.overall];
-          const light = badge.querySelector('.think-social-light') as HTMLElement;
-          if (light) light.style.backgroundColor = COLORS[meta.deepResult.overall];
-        }
+  port.onDisconnect.addListener(() => {
+    // Background went away mid-stream — allow a retry on the next hover
+    if (meta.deepPending) {
+      meta.deepPending = false;
+      meta.partialResult = undefined;
+    }
+  });
 
-        // Replace loading panel with full panel if it's currently visible
-        const existingPanel = document.querySelector(`[data-for-post="${postId}"]`);
-        const wasVisible = existingPanel?.classList.contains('ts-panel-visible');
-        if (existingPanel) existingPanel.remove();
+  port.postMessage({
+    type: 'DEEP_ANALYZE',
+    payload: {
+      postId,
+      text: meta.text,
+      author: meta.author,
+      hasVideo: meta.media.hasVideo,
+      videoDescription: meta.media.videoDescription,
+      videoThumbnailUrl: meta.media.videoThumbnailUrl,
+      imageUrls: meta.media.imageUrls,
+      comments: meta.comments,
+      linkUrls: meta.links,
+      language: meta.language
+    }
+  });
+}
 
-        const fullPanel = createPanel(meta.deepResult!);
-        fullPanel.setAttribute('data-for-post', postId);
-        document.body.appendChild(fullPanel);
+// Load the author's rating history once per post; refresh the panel if it is already showing
+function fetchAuthorProfile(meta: PostMeta): void {
+  if (meta.authorProfile !== undefined || !meta.author || meta.author === 'unknown') return;
+  meta.authorProfile = null;
 
-        if (wasVisible && badge) {
-          showPanel(fullPanel, badge);
-        }
-      } else if (response?.payload?.error) {
-        console.error(`[Inkline] Deep analysis failed for ${postId}:`, response.payload.error);
+  chrome.runtime.sendMessage(
+    { type: 'GET_AUTHOR_HISTORY', payload: { author: meta.author } },
+    (response) => {
+      meta.authorProfile = response?.profile || null;
+      if (!meta.authorProfile || !meta.deepResult) return;
+      const existing = findPanel(meta.postId);
+      if (existing?.classList.contains('ts-panel-visible')) {
+        replacePanel(meta.postId, createPanel(meta.deepResult, meta.authorProfile));
       }
     }
   );
 }
 
-// Global click-to-close handler (registered once)
+// Merge one streamed stage into the partial result and refresh the open panel
+function applyStreamEvent(meta: PostMeta, event: DeepStreamEvent): void {
+  if (!meta.partialResult) return;
+  const partial = meta.partialResult;
+
+  switch (event.stage) {
+    case 'search':
+      partial.counterSources = event.counterSources;
+      break;
+    case 'vision':
+      partial.videoAnalysis = event.videoAnalysis;
+      partial.hasVideo = meta.media.hasVideo;
+      break;
+    case 'dimensions': {
+      const { stage, ...dimensions } = event;
+      Object.assign(partial, dimensions);
+      break;
+    }
+    case 'summary':
+      partial.summary = event.summary;
+      break;
+    case 'counterPerspective':
+      partial.counterPerspective = event.counterPerspective || undefined;
+      break;
+  }
+
+  // Only redraw a panel the user has already opened; otherwise wait for the final result
+  const existing = findPanel(meta.postId);
+  if (existing?.classList.contains('ts-panel-visible')) {
+    replacePanel(meta.postId, createPartialPanel(partial));
+  }
+}
+
+// Swap the panel for a post, keeping it open if it was visible
+function replacePanel(postId: string, panel: HTMLElement): void {
+  const existingPanel = findPanel(postId);
+  const wasVisible = existingPanel?.classList.contains('ts-panel-visible');
+  if (existingPanel) {
+    if (activePanel === existingPanel) activePanel = null;
+    shadowHost(existingPanel).remove();
+  }
+
+  attachPanel(panel, postId);
+
+  const badge = findBadge(postId);
+  if (wasVisible && badge) {
+    showPanel(panel, badge);
+  }
+}
+
+// Global click-to-close handler (registered once). Clicks inside a closed shadow
+// root reach the document retargeted to its host, so hosts are what is compared.
 document.addEventListener('click', (e) => {
   if (activePanel) {
-    const target = e.target as Node;
-    const clickedBadge = (target as Element)?.closest?.('.think-social-badge');
-    if (!activePanel.contains(target) && !clickedBadge) {
+    const path = e.composedPath();
+    const clickedPanel = path.includes(shadowHost(activePanel));
+    const clickedBadge = path.some(node => node instanceof Element && node.tagName === 'INKLINE-BADGE');
+    if (!clickedPanel && !clickedBadge) {
       activePanel.classList.remove('ts-panel-visible');
       activePanel = null;
     }
@@ -1269,13 +1836,15 @@ async function processPost(article: Element): Promise<void> {
   const author = getPostAuthor(article);
   const media = detectMedia(article);
   const comments = extractComments(article);
+  const links = extractLinks(article);
+  const language = getPostLanguage(article);
 
   if (comments.length > 0) {
     console.log(`[Inkline] Found ${comments.length} comments for ${postId}`);
   }
 
   // Store metadata for later deep analysis on hover
-  postMetaMap.set(postId, { postId, text, author, media, comments });
+  postMetaMap.set(postId, { postId, text, author, media, comments, links, language });
 
   pendingPosts.add(postId);
 
@@ -1301,9 +1870,9 @@ async function processPost(article: Element): Promise<void> {
           const meta = postMetaMap.get(postId);
           if (meta) meta.quickResult = quickResult;
 
-          // Auto-trigger deep analysis for amber/red — pre-cache so it's
-          // ready instantly when the user clicks
-          if (quickResult.overall === 'amber' || quickResult.overall === 'red') {
+          // Auto-trigger deep analysis for amber/red (per the options page) —
+          // pre-cache so it's ready instantly when the user clicks
+          if (shouldAutoDeep(quickResult.overall)) {
             console.log(`[Inkline] Auto-deep for ${quickResult.overall} post ${postId}`);
             triggerDeepAnalysis(postId);
           }
@@ -1314,6 +1883,11 @@ async function processPost(article: Element): Promise<void> {
   );
 }
 
+function shouldAutoDeep(rating: 'green' | 'amber' | 'red'): boolean {
+  if (settings.autoDeep === 'off') return false;
+  return rating === 'red' || (rating === 'amber' && settings.autoDeep === 'amber-red');
+}
+
 function processVisiblePosts(): void {
   const posts = findPosts();
   posts.forEach(post => processPost(post));
@@ -1342,12 +1916,44 @@ function observePosts(): void {
   console.log(`[Inkline] Observer started on ${PLATFORM}`);
 }
 
-function init(): void {
+// Settings saved on the options page; hover delay and auto-deep apply at once,
+// turning a platform on or off applies on the next page load
+async function loadContentSettings(): Promise<void> {
+  try {
+    // Same fallbacks and limits as settings.ts, for values edited or synced by hand
+    const stored = (await chrome.storage.sync.get(SETTINGS_KEY))[SETTINGS_KEY] || {};
+    const hoverDelay = Number(stored.hoverDelayMs);
+    settings = {
+      platforms: { ...DEFAULT_CONTENT_SETTINGS.platforms, ...(stored.platforms || {}) },
+      autoDeep: stored.autoDeep === 'off' || stored.autoDeep === 'red' || stored.autoDeep === 'amber-red'
+        ? stored.autoDeep
+        : DEFAULT_CONTENT_SETTINGS.autoDeep,
+      hoverDelayMs: Number.isFinite(hoverDelay)
+        ? Math.min(Math.max(Math.round(hoverDelay), 0), MAX_HOVER_DELAY_MS)
+        : DEFAULT_CONTENT_SETTINGS.hoverDelayMs
+    };
+  } catch (err) {
+    console.error('[Inkline] Could not load settings:', err);
+  }
+}
+
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'sync' && changes[SETTINGS_KEY]) loadContentSettings();
+});
+
+async function init(): Promise<void> {
   if (PLATFORM === 'unknown') {
     console.log('[Inkline] Unknown platform, not activating');
     return;
   }
 
+  // Badges wait for their styles rather than flash unstyled
+  await Promise.all([loadContentSettings(), loadShadowStyles()]);
+  if (!settings.platforms[PLATFORM]) {
+    console.log(`[Inkline] Turned off for ${PLATFORM} in settings`);
+    return;
+  }
+
   console.log(`[Inkline] Content script loaded on ${PLATFORM} (two-tier mode)`);
   processVisiblePosts();
   observePosts();
@@ -0,0 +1,110 @@
+// Inkline - Options Page Script
+// Edits the settings in chrome.storage.sync (settings.ts)
+
+import {
+  loadSettings, saveSettings, normalizeBackendUrl, AutoDeepPolicy, Platform, Settings,
+  MAX_HOVER_DELAY_MS, PANEL_LANGUAGES
+} from './settings.js';
+
+const HEALTH_TIMEOUT_MS = 5000;
+const PLATFORMS: Platform[] = ['twitter', 'facebook', 'instagram'];
+
+function field<T extends HTMLElement>(id: string): T {
+  return document.getElementById(id) as T;
+}
+
+function showStatus(id: string, message: string, ok: boolean): void {
+  const el = field<HTMLElement>(id);
+  el.textContent = message;
+  el.dataset.state = ok ? 'ok' : 'error';
+}
+
+function fillLanguages(): void {
+  const select = field<HTMLSelectElement>('panel-language');
+  for (const [code, name] of Object.entries(PANEL_LANGUAGES)) {
+    const option = document.createElement('option');
+    option.value = code;
+    option.textContent = name;
+    select.appendChild(option);
+  }
+}
+
+function showSettings(settings: Settings): void {
+  field<HTMLInputElement>('backend-url').value = settings.backendUrl;
+  field<HTMLInputElement>('auth-token').value = settings.authToken;
+  for (const platform of PLATFORMS) {
+    field<HTMLInputElement>(`platform-${platform}`).checked = settings.platforms[platform];
+  }
+  field<HTMLSelectElement>('auto-deep').value = settings.autoDeep;
+  field<HTMLInputElement>('hover-delay').value = String(settings.hoverDelayMs);
+  field<HTMLSelectElement>('panel-language').value = settings.panelLanguage;
+}
+
+// The form's values, or an error message for the first invalid one
+function readForm(): Settings | string {
+  const backendUrl = normalizeBackendUrl(field<HTMLInputElement>('backend-url').value);
+  if (!backendUrl) return 'Backend URL must be an http:// or https:// address';
+
+  const hoverDelayMs = Number(field<HTMLInputElement>('hover-delay').value);
+  if (!Number.isInteger(hoverDelayMs) || hoverDelayMs < 0 || hoverDelayMs > MAX_HOVER_DELAY_MS) {
+    return `Hover delay must be a whole number of milliseconds from 0 to ${MAX_HOVER_DELAY_MS}`;
+  }
+
+  const platforms = {} as Record<Platform, boolean>;
+  for (const platform of PLATFORMS) {
+    platforms[platform] = field<HTMLInputElement>(`platform-${platform}`).checked;
+  }
+
+  return {
+    backendUrl,
+    authToken: field<HTMLInputElement>('auth-token').value.trim(),
+    platforms,
+    autoDeep: field<HTMLSelectElement>('auto-deep').value as AutoDeepPolicy,
+    hoverDelayMs,
+    panelLanguage: field<HTMLSelectElement>('panel-language').value
+  };
+}
+
+async function save(): Promise<void> {
+  const form = readForm();
+  if (typeof form === 'string') {
+    showStatus('save-status', form, false);
+    return;
+  }
+  try {
+    showSettings(await saveSettings(form));
+    showStatus('save-status', 'Saved. Reload open tabs to turn platforms on or off.', true);
+  } catch (error) {
+    showStatus('save-status', `Could not save: ${error instanceof Error ? error.message : error}`, false);
+  }
+}
+
+// Calls /health on the URL in the form (saved or not)
+async function testConnection(): Promise<void> {
+  const backendUrl = normalizeBackendUrl(field<HTMLInputElement>('backend-url').value);
+  if (!backendUrl) {
+    showStatus('connection-status', 'Enter an http:// or https:// address first', false);
+    return;
+  }
+
+  showStatus('connection-status', 'Testing...', true);
+  try {
+    const response = await fetch(`${backendUrl}/health`, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const health = await response.json();
+    if (health.status !== 'ok') throw new Error(`status "${health.status}"`);
+    showStatus('connection-status', `Connected — model: ${health.llm || 'unknown'}, search: ${health.search || 'unknown'}`, true);
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError'
+      ? `no answer within ${HEALTH_TIMEOUT_MS / 1000}s`
+      : error instanceof Error ? error.message : String(error);
+    showStatus('connection-status', `Could not reach the backend: ${reason}`, false);
+  }
+}
+
+document.addEventListener('DOMContentLoaded', async () => {
+  fillLanguages();
+  showSettings(await loadSettings());
+  field<HTMLButtonElement>('save').addEventListener('click', save);
+  field<HTMLButtonElement>('test-connection').addEventListener('click', testConnection);
+});
@@ -42,4 +42,8 @@ async function updatePlatformStatus(): Promise<void> {
 document.addEventListener('DOMContentLoaded', () => {
   updateRemaining();
   updatePlatformStatus();
+  document.getElementById('open-settings')?.addEventListener('click', (event) => {
+    event.preventDefault();
+    chrome.runtime.openOptionsPage();
+  });
 });
@@ -0,0 +1,87 @@
+// Inkline - Extension Settings
+// User settings kept in chrome.storage.sync and edited on the options page.
+// Shared by the background worker and the options page; the content script is
+// not a module and mirrors the fields it needs (see content.ts).
+
+export type Platform = 'twitter' | 'facebook' | 'instagram';
+
+// Which quick-scan ratings start a deep analysis without a hover
+export type AutoDeepPolicy = 'off' | 'red' | 'amber-red';
+
+export interface Settings {
+  backendUrl: string;          // base URL of the backend, e.g. http://localhost:3001
+  authToken: string;           // an install token from the backend's POST /api/install, used instead of registering
+  platforms: Record<Platform, boolean>;
+  autoDeep: AutoDeepPolicy;
+  hoverDelayMs: number;        // hover time on a badge before a deep analysis starts
+  panelLanguage: string;       // two-letter code the panel is written in; '' = browser language
+}
+
+export const SETTINGS_KEY = 'inkline_settings';
+
+export const DEFAULT_SETTINGS: Settings = {
+  backendUrl: 'http://localhost:3001',
+  authToken: '',
+  platforms: { twitter: true, facebook: true, instagram: true },
+  autoDeep: 'amber-red',
+  hoverDelayMs: 300,
+  panelLanguage: ''
+};
+
+export const MAX_HOVER_DELAY_MS = 3000;
+
+// Languages the backend can write analyses in (backend language.ts)
+export const PANEL_LANGUAGES: Record<string, string> = {
+  en: 'English', es: 'Spanish', fr: 'French', de: 'German', pt: 'Portuguese', it: 'Italian',
+  nl: 'Dutch', pl: 'Polish', sv: 'Swedish', tr: 'Turkish', id: 'Indonesian',
+  ru: 'Russian', uk: 'Ukrainian', el: 'Greek', ar: 'Arabic', fa: 'Persian', ur: 'Urdu', he: 'Hebrew',
+  hi: 'Hindi', bn: 'Bengali', th: 'Thai', zh: 'Chinese', ja: 'Japanese', ko: 'Korean'
+};
+
+/**
+ * An http(s) origin with any trailing slashes removed, or null if `url` is not one
+ */
+export function normalizeBackendUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+// Stored values over the defaults; anything missing or malformed falls back
+function withDefaults(stored: Partial<Settings> | undefined): Settings {
+  const s = stored || {};
+  const hoverDelay = Number(s.hoverDelayMs);
+  return {
+    backendUrl: (typeof s.backendUrl === 'string' && normalizeBackendUrl(s.backendUrl)) || DEFAULT_SETTINGS.backendUrl,
+    authToken: typeof s.authToken === 'string' ? s.authToken.trim() : '',
+    platforms: { ...DEFAULT_SETTINGS.platforms, ...(s.platforms || {}) },
+    autoDeep: s.autoDeep === 'off' || s.autoDeep === 'red' || s.autoDeep === 'amber-red' ? s.autoDeep : DEFAULT_SETTINGS.autoDeep,
+    hoverDelayMs: Number.isFinite(hoverDelay) ? Math.min(Math.max(Math.round(hoverDelay), 0), MAX_HOVER_DELAY_MS) : DEFAULT_SETTINGS.hoverDelayMs,
+    panelLanguage: typeof s.panelLanguage === 'string' && s.panelLanguage in PANEL_LANGUAGES ? s.panelLanguage : ''
+  };
+}
+
+export async function loadSettings(): Promise<Settings> {
+  const stored = await chrome.storage.sync.get(SETTINGS_KEY);
+  return withDefaults(stored[SETTINGS_KEY]);
+}
+
+export async function saveSettings(settings: Settings): Promise<Settings> {
+  const clean = withDefaults(settings);
+  await chrome.storage.sync.set({ [SETTINGS_KEY]: clean });
+  return clean;
+}
+
+/**
+ * Calls `listener` with the new settings whenever they are saved
+ */
+export function onSettingsChanged(listener: (settings: Settings, previous: Settings) => void): void {
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area !== 'sync' || !changes[SETTINGS_KEY]) return;
+    listener(withDefaults(changes[SETTINGS_KEY].newValue), withDefaults(changes[SETTINGS_KEY].oldValue));
+  });
+}
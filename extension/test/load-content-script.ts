@@ -0,0 +1,32 @@
+// Inkline - Content Script Test Loader
+// content.ts is a classic script (content scripts cannot be modules), so it has no
+// exports to import. It is compiled and evaluated in the global scope of the jsdom
+// page instead, which makes its top-level functions globals the tests can call.
+// The page is not on a supported platform, so the script loads without starting.
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+
+// The chrome APIs the script touches while loading
+function stubChrome(): void {
+  const event = { addListener: () => {}, removeListener: () => {} };
+  (globalThis as Record<string, unknown>).chrome = {
+    runtime: { getURL: (file: string) => file, sendMessage: () => {}, onMessage: event, lastError: undefined },
+    storage: { sync: { get: async () => ({}) }, local: { get: async () => ({}), set: async () => {} }, onChanged: event }
+  };
+}
+
+let loaded = false;
+
+export function loadContentScript(): void {
+  if (loaded) return;
+  stubChrome();
+  const source = fs.readFileSync(path.join(__dirname, '../src/content.ts'), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.None }
+  });
+  // Indirect eval runs in the global scope, as the browser runs a content script
+  (0, eval)(outputText);
+  loaded = true;
+}
@@ -0,0 +1,242 @@
+// Inkline - Panel Escaping Tests
+// Everything the panel shows comes from the post, the model, search results or
+// comments. Each section is fed hostile strings and URLs: none may add an element
+// or attribute to the panel, and unsafe URLs must never become links.
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { loadContentScript } from './load-content-script';
+
+// Globals defined by content.ts (see load-content-script.ts)
+declare function buildPanel(analysis: object, streaming: boolean, authorProfile?: object | null): HTMLElement;
+declare function html(strings: TemplateStringsArray, ...values: unknown[]): object;
+declare function setHtml(el: Element, content: object): void;
+declare function safeUrl(url: unknown): string | null;
+
+const HOSTILE = [
+  '<img src=x onerror=alert(1)>',
+  '"><script>alert(1)</script>',
+  "' onmouseover='alert(1)' data-x='",
+  '</div><a href="javascript:alert(1)">click</a><div>'
+];
+
+const UNSAFE_URLS = [
+  'javascript:alert(1)',
+  'JavaScript:alert(document.cookie)',
+  ' javascript:alert(1)',
+  'data:text/html,<script>alert(1)</script>',
+  'vbscript:msgbox(1)',
+  '//evil.example/path',
+  '/relative/path',
+  '"><img src=x onerror=alert(1)>'
+];
+
+const SAFE_URL = 'https://news.example/story?id=1&ref=feed';
+
+const rating = (label: string, reason?: string) => ({ rating: 'amber', label, ...(reason ? { reason } : {}) });
+
+function analysisWith(overrides: object = {}): object {
+  return {
+    overall: 'amber',
+    perspective: rating('Leans left', 'Frames one side only.'),
+    verification: rating('Mixed', 'Some claims check out.'),
+    balance: rating('One-sided'),
+    source: rating('Unknown account'),
+    tone: rating('Heated'),
+    summary: 'A short summary.',
+    confidence: 0.7,
+    ...overrides
+  };
+}
+
+function profileWith(handle: string): object {
+  const counts = { green: 0, amber: 4, red: 1 };
+  return {
+    handle,
+    postCount: 5,
+    recent: {
+      postCount: 5,
+      overall: counts,
+      dimensions: { perspective: counts, verification: counts, balance: counts, source: counts, tone: counts }
+    },
+    trends: {
+      overall: 'worsening', perspective: 'stable', verification: 'stable',
+      balance: 'stable', source: 'stable', tone: 'stable'
+    }
+  };
+}
+
+// Elements and attributes the panel template never produces itself
+const EVENT_HANDLER = /^on/i;
+const INJECTED_TAGS = 'script, img, iframe, object, embed, svg, math, style, link, meta, base, form, input';
+
+function expectInert(panel: HTMLElement): void {
+  expect(panel.querySelectorAll(INJECTED_TAGS)).toHaveLength(0);
+  for (const el of panel.querySelectorAll('*')) {
+    const names = el.getAttributeNames();
+    expect(names.filter(name => EVENT_HANDLER.test(name))).toEqual([]);
+    expect(names).not.toContain('data-x');
+  }
+  for (const link of panel.querySelectorAll('[href]')) {
+    expect(new URL(link.getAttribute('href')!).protocol).toMatch(/^https?:$/);
+  }
+}
+
+function text(panel: HTMLElement, selector: string): string[] {
+  return Array.from(panel.querySelectorAll(selector), el => el.textContent || '');
+}
+
+beforeAll(() => {
+  loadContentScript();
+});
+
+describe('html template', () => {
+  it.each(HOSTILE)('escapes %s in text and attribute positions', payload => {
+    const el = document.createElement('div');
+    setHtml(el, html`<span title="${payload}">${payload}</span>`);
+    expect(el.children).toHaveLength(1);
+    expect(el.firstElementChild!.getAttributeNames()).toEqual(['title']);
+    expect(el.firstElementChild!.getAttribute('title')).toBe(payload);
+    expect(el.textContent).toBe(payload);
+  });
+
+  it('does not treat objects from JSON as markup', () => {
+    const forged = JSON.parse('{"SafeHtml": "<img src=x onerror=alert(1)>", "__html": "<img src=x>"}');
+    const el = document.createElement('div');
+    setHtml(el, html`<span>${forged}</span>`);
+    expect(el.querySelectorAll('img')).toHaveLength(0);
+  });
+});
+
+describe('safeUrl', () => {
+  it.each(UNSAFE_URLS)('rejects %s', url => {
+    expect(safeUrl(url)).toBeNull();
+  });
+
+  it('rejects values that are not strings', () => {
+    expect(safeUrl(undefined)).toBeNull();
+    expect(safeUrl({ href: SAFE_URL })).toBeNull();
+  });
+
+  it('keeps http(s) URLs', () => {
+    expect(safeUrl(SAFE_URL)).toBe(SAFE_URL);
+    expect(safeUrl('http://example.org/')).toBe('http://example.org/');
+  });
+});
+
+describe('analysis panel', () => {
+  it.each(HOSTILE)('renders a hostile summary and alternative viewpoint as text: %s', payload => {
+    const panel = buildPanel(analysisWith({ summary: payload, counterPerspective: payload }), false);
+    expectInert(panel);
+    expect(text(panel, '.ts-summary-text')).toEqual([payload]);
+    expect(text(panel, '.ts-counter-perspective-text')).toEqual([payload]);
+  });
+
+  it.each(HOSTILE)('renders hostile dimension labels and reasons as text: %s', payload => {
+    const panel = buildPanel(analysisWith({ tone: rating(payload, payload) }), false);
+    expectInert(panel);
+    expect(text(panel, '.ts-dim-label')).toContain(payload);
+    expect(text(panel, '.ts-dim-reason')).toContain(payload);
+  });
+
+  it.each(HOSTILE)('renders hostile claims as text: %s', payload => {
+    const panel = buildPanel(analysisWith({
+      claims: [{ text: payload, status: payload, note: payload, sourceIndices: [0] }],
+      counterSources: [{ outlet: payload, lean: '', headline: 'Headline', url: SAFE_URL, isReal: true }]
+    }), false);
+    expectInert(panel);
+    expect(text(panel, '.ts-claim-text')).toEqual([payload]);
+    expect(text(panel, '.ts-claim-note')).toEqual([payload]);
+    expect(text(panel, '.ts-claim-status')).toEqual([payload]);
+    expect(panel.querySelector('.ts-claim')!.getAttribute('data-status')).toBe(payload);
+    expect(text(panel, '.ts-claim-source')).toEqual([payload]);
+  });
+
+  it.each(UNSAFE_URLS)('drops claim source links to %s', url => {
+    const panel = buildPanel(analysisWith({
+      claims: [{ text: 'A claim', status: 'contested', sourceIndices: [0, 1] }],
+      counterSources: [
+        { outlet: 'Unsafe', lean: '', headline: 'Headline', url, isReal: true },
+        { outlet: 'Safe', lean: '', headline: 'Headline', url: SAFE_URL, isReal: true }
+      ]
+    }), false);
+    expectInert(panel);
+    const links = panel.querySelectorAll('.ts-claim-source');
+    expect(Array.from(links, a => a.getAttribute('href'))).toEqual([SAFE_URL]);
+  });
+
+  it.each(HOSTILE)('renders hostile further-reading sources as text: %s', payload => {
+    const panel = buildPanel(analysisWith({
+      counterSources: [{ outlet: payload, lean: payload, headline: payload, snippet: payload, stance: payload, url: SAFE_URL, isReal: true }]
+    }), false);
+    expectInert(panel);
+    expect(text(panel, '.ts-counter-name')).toEqual([payload]);
+    expect(text(panel, '.ts-counter-lean')).toEqual([payload]);
+    expect(text(panel, '.ts-counter-headline')).toEqual([payload]);
+    expect(text(panel, '.ts-counter-snippet')).toEqual([payload]);
+    expect(panel.querySelector('a.ts-counter-link')!.getAttribute('href')).toBe(SAFE_URL);
+  });
+
+  it.each(UNSAFE_URLS)('lists a further-reading source with URL %s but does not link it', url => {
+    const panel = buildPanel(analysisWith({
+      counterSources: [{ outlet: 'Outlet', lean: '', headline: 'Headline', url, isReal: true }]
+    }), false);
+    expectInert(panel);
+    expect(panel.querySelectorAll('.ts-counter-item')).toHaveLength(1);
+    expect(panel.querySelectorAll('a')).toHaveLength(0);
+  });
+
+  it.each(HOSTILE)('renders a hostile comment climate as text: %s', payload => {
+    const panel = buildPanel(analysisWith({
+      commentAnalysis: {
+        overallTone: payload,
+        leaningSummary: payload,
+        agreementLevel: payload,
+        highlights: [{ author: payload, text: payload, reason: payload, sentiment: payload }]
+      }
+    }), false);
+    expectInert(panel);
+    expect(text(panel, '.ts-comment-agreement').map(s => s.trim())).toEqual([payload]);
+    expect(panel.querySelector('.ts-comment-agreement')!.getAttribute('data-level')).toBe(payload);
+    expect(text(panel, '.ts-comment-tone')).toEqual([payload]);
+    expect(text(panel, '.ts-comment-lean')).toEqual([payload]);
+    expect(text(panel, '.ts-highlight-author')).toEqual([`@${payload}`]);
+    expect(text(panel, '.ts-highlight-text')).toEqual([`"${payload}"`]);
+    expect(text(panel, '.ts-highlight-reason')).toEqual([payload]);
+    expect(panel.querySelector('.ts-comment-highlight')!.getAttribute('data-sentiment')).toBe(payload);
+  });
+
+  it.each(HOSTILE)('renders hostile provenance in the basis tooltip as text: %s', payload => {
+    const panel = buildPanel(analysisWith({
+      provenance: {
+        stages: {
+          vision: { status: 'skipped', reason: payload },
+          search: { status: 'ran', count: 2 },
+          links: { status: 'failed', reason: 'error' },
+          comments: { status: 'ran', count: 3 }
+        },
+        models: { text: payload, search: payload },
+        promptVersion: payload,
+        fallback: false,
+        analyzedAt: payload,
+        cache: { origin: payload }
+      }
+    }), false);
+    expectInert(panel);
+    const basis = panel.querySelector('.ts-basis')!;
+    expect(basis.textContent).toBe('Based on: text + 2 articles + 3 comments');
+    expect(basis.getAttribute('title')).toContain(`model: ${payload} (${payload})`);
+  });
+
+  it.each(HOSTILE)('renders a hostile author handle as text: %s', payload => {
+    const panel = buildPanel(analysisWith(), false, profileWith(payload));
+    expectInert(panel);
+    expect(text(panel, '.ts-author-text')[0]).toContain(`@${payload}'s recent posts`);
+  });
+
+  it.each(HOSTILE)('renders a hostile near-duplicate, video and streaming panel as text: %s', payload => {
+    const panel = buildPanel({ summary: payload, hasVideo: true, videoAnalysis: payload, nearDuplicate: {} }, true);
+    expectInert(panel);
+    expect(text(panel, '.ts-summary-text')).toEqual([payload]);
+    expect(text(panel, '.ts-video-text')).toEqual([payload]);
+  });
+});